@@ -0,0 +1,42 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { resolveInside } from './buildContainer.js';
+
+let root: string;
+
+before(async () => {
+  root = await fs.promises.realpath(await fs.promises.mkdtemp(path.join(os.tmpdir(), 'envzilla-resolve-')));
+  await fs.promises.mkdir(path.join(root, 'docker'));
+  await fs.promises.writeFile(path.join(root, 'docker', 'Dockerfile'), 'FROM scratch\n');
+  await fs.promises.symlink('docker', path.join(root, 'inside'));
+  await fs.promises.symlink(os.tmpdir(), path.join(root, 'outside'));
+});
+
+after(async () => {
+  await fs.promises.rm(root, { recursive: true, force: true });
+});
+
+test('resolveInside resolves paths within the repository', async () => {
+  assert.equal(await resolveInside(root, 'docker/Dockerfile'), path.join(root, 'docker', 'Dockerfile'));
+  assert.equal(await resolveInside(root, '.'), root);
+});
+
+test('resolveInside follows symlinks that stay in the repository', async () => {
+  assert.equal(await resolveInside(root, 'inside/Dockerfile'), path.join(root, 'docker', 'Dockerfile'));
+});
+
+test('resolveInside returns missing paths unresolved', async () => {
+  assert.equal(await resolveInside(root, 'missing/Dockerfile'), path.join(root, 'missing', 'Dockerfile'));
+});
+
+test('resolveInside refuses paths that escape the repository', async () => {
+  await assert.rejects(resolveInside(root, '../Dockerfile'), /escapes the repository/);
+  await assert.rejects(resolveInside(root, '/etc/passwd'), /escapes the repository/);
+});
+
+test('resolveInside refuses symlinks that point outside the repository', async () => {
+  await assert.rejects(resolveInside(root, 'outside'), /escapes the repository/);
+});
@@ -2,19 +2,33 @@ import { spawn } from 'child_process';
 import * as net from 'net';
 import * as fs from 'fs';
 import * as path from 'path';
+import * as os from 'os';
 import logger from '../utils/logger.js';
+import { DeploymentKey, parseDeploymentKey, containerNameFor, imageRepositoryFor } from './deploymentKey.js';
+import { ContainerProfile, ContainerProfileOverrides, resolveContainerProfile, containerProfileArgs } from './containerProfile.js';
 
 /**
  * Configuration for the Docker build and run process.
  */
 const DOCKER_CONFIG = {
-    // Port the container listens on (assumed from sample-app).
+    // Port the container listens on when .envzilla.yml doesn't say (assumed from sample-app).
     containerPort: 3000,
     // Default timeout for operations.
     buildTimeoutMs: 10 * 60 * 1000, // 10 minutes
     runTimeoutMs: 60 * 1000, // 1 minute
 };
 
+/**
+ * Docker network sandboxed previews run on. It is created `--internal`, so
+ * containers on it can't reach the internet or the host's other networks.
+ */
+export const SANDBOX_NETWORK = 'envzilla-sandbox';
+
+/**
+ * BuildKit builder sandboxed images are built with (see ensureSandboxBuilder).
+ */
+export const SANDBOX_BUILDER = 'envzilla-sandbox';
+
 /**
  * Configuration for the port searching logic.
  */
@@ -30,24 +44,162 @@ export interface BuildResult {
     containerId: string;
     hostPort: number;
     imageName: string;
+    // Image size in bytes, when docker reported it
+    imageSize?: number;
+    // Sandboxed containers publish no ports: the app is reached at this
+    // address on the sandbox network, and `hostPort` is the container port
+    targetHost?: string;
+    // Limits and hardening options the container runs with
+    profile: ContainerProfile;
+    // Set for compose previews (see composePreview.ts), where `containerId`
+    // is the exposed service's container
+    composeProject?: string;
+    containers?: Array<{ service: string; containerId: string }>;
+}
+
+/**
+ * Options for building and running a preview container. Values usually come
+ * from the repository's `.envzilla.yml` (see repoConfig.ts).
+ */
+export interface BuildContainerOptions {
+    // Build context relative to the repository root (defaults to the root)
+    contextPath?: string;
+    buildArgs?: Record<string, string>;
+    // Port the app listens on inside the container
+    containerPort?: number;
+    env?: Record<string, string>;
+    // Stored secrets; passed through an --env-file so they never appear in
+    // the docker command line
+    secrets?: Record<string, string>;
+    // Docker network to join, e.g. the one the PR's services run on (see
+    // previewServices.ts). Sandboxed containers use it instead of the
+    // sandbox network, so it must be internal for them.
+    network?: string;
+    // Repository overrides for the global container profile (see containerProfile.ts)
+    profile?: ContainerProfileOverrides;
+    labels?: Record<string, string>;
+    // Suffix for the container name, unique per build (see containerNameFor)
+    revision?: string;
+    // Run on the internal sandbox network with strict limits and no
+    // capabilities, for untrusted code such as fork PRs
+    sandbox?: boolean;
+    // Aborting kills the running docker command and removes partial images/containers
+    signal?: AbortSignal;
+    // Receives docker build/run output as it arrives (see buildLogs.ts)
+    onOutput?: CommandOutputHandler;
+}
+
+export type CommandOutputHandler = (stream: 'stdout' | 'stderr', chunk: string) => void;
+
+function isInside(root: string, target: string): boolean {
+    const rel = path.relative(root, target);
+    return !rel.startsWith('..') && !path.isAbsolute(rel);
+}
+
+/**
+ * Resolve `relativePath` against `root`, refusing anything that escapes it,
+ * including through symlinks checked out from the repository. Paths that
+ * don't exist are returned unresolved for the caller to report.
+ */
+export async function resolveInside(root: string, relativePath: string): Promise<string> {
+    const resolved = path.resolve(root, relativePath);
+    if (!isInside(path.resolve(root), resolved)) {
+        throw new Error(`Path escapes the repository: ${relativePath}`);
+    }
+
+    let real: string;
+    try {
+        real = await fs.promises.realpath(resolved);
+    } catch {
+        return resolved;
+    }
+    if (!isInside(await fs.promises.realpath(root), real)) {
+        throw new Error(`Path escapes the repository: ${relativePath}`);
+    }
+    return real;
+}
+
+/**
+ * Error raised when a build step is aborted through its AbortSignal.
+ */
+export class BuildCancelledError extends Error {
+    constructor(public readonly reason: unknown = 'cancelled') {
+        super(`Build ${typeof reason === 'string' ? reason : 'cancelled'}`);
+        this.name = 'BuildCancelledError';
+    }
 }
 
 /**
- * Run a command using spawn and collect stdout/stderr.
+ * Stages of a preview build, used to tell the PR author where it failed.
  */
-function runCommand(cmd: string, args: string[], opts?: { 
+export type BuildStep = 'clone' | 'config' | 'services' | 'build' | 'run' | 'health' | 'tunnel';
+
+/**
+ * Error raised when one step of a preview build fails.
+ */
+export class BuildStepError extends Error {
+    constructor(public readonly step: BuildStep, message: string, options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = 'BuildStepError';
+    }
+}
+
+/**
+ * Attribute `error` to `step`, leaving cancellations and errors that already
+ * name their step untouched.
+ */
+export function asStepError(step: BuildStep, error: unknown): Error {
+    if (error instanceof BuildCancelledError || error instanceof BuildStepError) return error;
+    const message = error instanceof Error ? error.message : String(error);
+    return new BuildStepError(step, message, { cause: error });
+}
+
+/**
+ * Last non-empty line of a command's stderr, which is usually the actual
+ * error; the full output goes to the build log.
+ */
+export function lastErrorLine(stderr: string): string {
+    const lines = stderr.split('\n').map(line => line.trim()).filter(Boolean);
+    return (lines[lines.length - 1] || 'no error output').slice(0, 500);
+}
+
+/**
+ * Throw BuildCancelledError if the signal has been aborted.
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+    if (signal?.aborted) throw new BuildCancelledError(signal.reason);
+}
+
+/**
+ * Run a command using spawn and collect stdout/stderr. Aborting `signal`
+ * kills the process and rejects with BuildCancelledError; `onOutput` sees
+ * output as it arrives.
+ */
+export function runCommand(cmd: string, args: string[], opts?: { 
     timeoutMs?: number; 
     stream?: boolean; 
     cwd?: string;
+    // Replaces the inherited environment
+    env?: NodeJS.ProcessEnv;
+    signal?: AbortSignal;
+    onOutput?: CommandOutputHandler;
 }): Promise<{ stdout: string; stderr: string; exitCode: number }> {
     const timeoutMs = opts?.timeoutMs ?? 10 * 60 * 1000;
     const stream = Boolean(opts?.stream);
     const cwd = opts?.cwd || process.cwd();
+    const signal = opts?.signal;
+    const onOutput = opts?.onOutput;
 
     return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new BuildCancelledError(signal.reason));
+            return;
+        }
+
         const child = spawn(cmd, args, { 
             stdio: ['ignore', 'pipe', 'pipe'],
-            cwd
+            cwd,
+            env: opts?.env
         });
 
         let stdout = '';
@@ -57,27 +209,41 @@ function runCommand(cmd: string, args: string[], opts?: {
         const timer = setTimeout(() => {
             if (!finished) {
                 finished = true;
+                signal?.removeEventListener('abort', onAbort);
                 child.kill('SIGKILL');
                 reject(new Error(`${cmd} ${args.join(' ')} timed out after ${timeoutMs}ms`));
             }
         }, timeoutMs);
 
+        const onAbort = () => {
+            if (!finished) {
+                finished = true;
+                clearTimeout(timer);
+                try { child.kill('SIGKILL'); } catch {}
+                reject(new BuildCancelledError(signal?.reason));
+            }
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+
         child.stdout?.on('data', (b) => {
             const s = b.toString();
             stdout += s;
             if (stream) process.stdout.write(s);
+            onOutput?.('stdout', s);
         });
 
         child.stderr?.on('data', (b) => {
             const s = b.toString();
             stderr += s;
             if (stream) process.stderr.write(s);
+            onOutput?.('stderr', s);
         });
 
         child.on('error', (err) => {
             if (!finished) {
                 finished = true;
                 clearTimeout(timer);
+                signal?.removeEventListener('abort', onAbort);
                 reject(new Error(`${err.message}${stderr ? '\n' + stderr.trim().slice(0, 1024) : ''}`));
             }
         });
@@ -86,6 +252,7 @@ function runCommand(cmd: string, args: string[], opts?: {
             if (!finished) {
                 finished = true;
                 clearTimeout(timer);
+                signal?.removeEventListener('abort', onAbort);
                 resolve({ stdout, stderr, exitCode: code ?? 0 });
             }
         });
@@ -95,7 +262,7 @@ function runCommand(cmd: string, args: string[], opts?: {
 /**
  * Clone a GitHub repository to a temporary directory
  */
-export async function clonePRRepo(branch: string, repoURL: string, targetDir?: string): Promise<string> {
+export async function clonePRRepo(branch: string, repoURL: string, targetDir?: string, signal?: AbortSignal, onOutput?: CommandOutputHandler): Promise<string> {
     const cloneDir = targetDir || path.join(process.cwd(), 'temp', `pr-${Date.now()}`);
     
     logger.info({ branch, repoURL, cloneDir }, '📥 Cloning repository...');
@@ -111,10 +278,10 @@ export async function clonePRRepo(branch: string, repoURL: string, targetDir?: s
             '--branch', branch,
             repoURL,
             cloneDir
-        ], { timeoutMs: 5 * 60 * 1000 }); // 5 minute timeout for clone
+        ], { timeoutMs: 5 * 60 * 1000, signal, onOutput }); // 5 minute timeout for clone
 
         if (exitCode !== 0) {
-            throw new Error(`Git clone failed: ${stderr}`);
+            throw new Error(`Git clone failed: ${lastErrorLine(stderr)}`);
         }
 
         logger.info({ cloneDir }, '✅ Repository cloned successfully');
@@ -126,7 +293,7 @@ export async function clonePRRepo(branch: string, repoURL: string, targetDir?: s
         } catch (cleanupError) {
             logger.warn({ cloneDir, error: cleanupError }, 'Failed to cleanup clone directory');
         }
-        throw error;
+        throw asStepError('clone', error);
     }
 }
 
@@ -135,44 +302,78 @@ export async function clonePRRepo(branch: string, repoURL: string, targetDir?: s
  */
 export async function buildContainerFromPath(
     repoPath: string, 
-    prNumber: number,
-    dockerfilePath: string = 'Dockerfile'
+    key: DeploymentKey,
+    dockerfilePath: string = 'Dockerfile',
+    options: BuildContainerOptions = {}
 ): Promise<BuildResult> {
-    logger.info({ repoPath, prNumber }, '🏗️ Building Docker image...');
+    logger.info({ repoPath, deployment: key, dockerfilePath }, '🏗️ Building Docker image...');
 
     // Check if Dockerfile exists
-    const fullDockerfilePath = path.join(repoPath, dockerfilePath);
+    const fullDockerfilePath = await resolveInside(repoPath, dockerfilePath);
     if (!fs.existsSync(fullDockerfilePath)) {
-        throw new Error(`Dockerfile not found at: ${fullDockerfilePath}`);
+        throw new BuildStepError('build', `Dockerfile not found at: ${dockerfilePath}`);
     }
 
+    const contextPath = await resolveInside(repoPath, options.contextPath || '.');
+    if (!fs.existsSync(contextPath) || !fs.statSync(contextPath).isDirectory()) {
+        throw new BuildStepError('build', `Build context not found at: ${options.contextPath}`);
+    }
+
+    const buildArgFlags = Object.entries(options.buildArgs || {})
+        .flatMap(([name, value]) => ['--build-arg', `${name}=${value}`]);
+
     // Generate unique image name
-    const imageName = `preview-pr-${prNumber}:${Date.now()}`;
+    const imageName = `${imageRepositoryFor(key)}:${Date.now()}`;
+    const profile = resolveContainerProfile(options.profile, options.sandbox);
+    let step: BuildStep = 'build';
 
     try {
+        // Untrusted code is built by the locked-down sandbox builder
+        if (options.sandbox) await ensureSandboxBuilder(profile);
+        throwIfCancelled(options.signal);
+
         // Build the Docker image
+        // Plain progress output keeps the captured build log readable
         const { exitCode, stderr } = await runCommand('docker', [
-            'build',
+            ...(options.sandbox ? ['buildx', 'build', ...sandboxBuildArgs()] : ['build']),
+            '--progress=plain',
             '-f', fullDockerfilePath,
             '-t', imageName,
-            repoPath
+            ...buildArgFlags,
+            contextPath
         ], { 
             timeoutMs: DOCKER_CONFIG.buildTimeoutMs,
-            stream: false // Set to true if you want to see build output
+            stream: false, // Set to true to also echo build output to the server's console
+            signal: options.signal,
+            onOutput: options.onOutput
         });
 
         if (exitCode !== 0) {
-            throw new Error(`Docker build failed: ${stderr}`);
+            throw new Error(`Docker build failed: ${lastErrorLine(stderr)}`);
         }
 
         logger.info({ imageName }, '✅ Docker image built successfully');
+        const imageSize = await getImageSize(imageName);
+
+        step = 'run';
+        if (options.sandbox) {
+            if (!options.network) await ensureSandboxNetwork();
+            throwIfCancelled(options.signal);
+
+            const containerPort = options.containerPort ?? DOCKER_CONFIG.containerPort;
+            const containerId = await runContainer(imageName, undefined, key, profile, options);
+            const targetHost = await getSandboxAddress(containerId, options.network ?? SANDBOX_NETWORK);
+            logger.info({ containerId: containerId.substring(0, 12), targetHost, containerPort, imageName }, '🚀 Sandboxed container started successfully');
+            return { containerId, hostPort: containerPort, imageName, imageSize, targetHost, profile };
+        }
 
         // Find a free port
         const hostPort = await findFreePort();
         logger.info({ hostPort }, '🔍 Found free host port');
+        throwIfCancelled(options.signal);
 
         // Start the container
-        const containerId = await runContainer(imageName, hostPort, prNumber);
+        const containerId = await runContainer(imageName, hostPort, key, profile, options);
         
         logger.info({ 
             containerId: containerId.substring(0, 12), 
@@ -183,44 +384,177 @@ export async function buildContainerFromPath(
         return {
             containerId,
             hostPort,
-            imageName
+            imageName,
+            imageSize,
+            profile
         };
 
     } catch (error) {
+        if (error instanceof BuildCancelledError) {
+            logger.info({ deployment: key, imageName }, '🛑 Build cancelled, removing partial image');
+        }
         // Clean up the image on failure
         try {
-            await runCommand('docker', ['rmi', imageName], { timeoutMs: 30000 });
+            await runCommand('docker', ['rmi', '-f', imageName], { timeoutMs: 30000 });
         } catch (cleanupError) {
             logger.warn({ imageName, error: cleanupError }, 'Failed to cleanup image');
         }
-        throw error;
+        throw asStepError(step, error);
     }
 }
 
 /**
- * Run a Docker container with the specified image and port mapping
+ * Size of a local image in bytes, or undefined if docker can't tell.
  */
-async function runContainer(imageName: string, hostPort: number, prNumber: number): Promise<string> {
+async function getImageSize(imageName: string): Promise<number | undefined> {
+    try {
+        const { exitCode, stdout } = await runCommand('docker', ['image', 'inspect', '--format', '{{.Size}}', imageName], { timeoutMs: 30000 });
+        const size = Number(stdout.trim());
+        return exitCode === 0 && size > 0 ? size : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Create the sandbox builder unless it already exists (a BuildKit instance in
+ * its own container) and apply the sandbox CPU, memory and process limits to
+ * that container. The limits are shared by all sandboxed builds.
+ */
+async function ensureSandboxBuilder(profile: ContainerProfile): Promise<void> {
+    const inspect = await runCommand('docker', ['buildx', 'inspect', SANDBOX_BUILDER], { timeoutMs: 30000 });
+    if (inspect.exitCode !== 0) {
+        const { exitCode, stderr } = await runCommand('docker', ['buildx', 'create', '--name', SANDBOX_BUILDER, '--driver', 'docker-container'], { timeoutMs: 60000 });
+        // Another build may have created it in the meantime
+        if (exitCode !== 0 && !/existing instance/i.test(stderr)) {
+            throw new Error(`Failed to create sandbox builder: ${lastErrorLine(stderr)}`);
+        }
+        logger.info({ builder: SANDBOX_BUILDER }, '🧱 Created sandbox builder');
+    }
+
+    const bootstrap = await runCommand('docker', ['buildx', 'inspect', '--bootstrap', SANDBOX_BUILDER], { timeoutMs: 5 * 60 * 1000 });
+    if (bootstrap.exitCode !== 0) {
+        throw new Error(`Failed to start sandbox builder: ${lastErrorLine(bootstrap.stderr)}`);
+    }
+
+    const limits: string[] = [];
+    if (profile.cpus) limits.push('--cpus', String(profile.cpus));
+    if (profile.memory) limits.push('--memory', profile.memory, '--memory-swap', profile.memory);
+    if (profile.pidsLimit) limits.push('--pids-limit', String(profile.pidsLimit));
+    if (limits.length === 0) return;
+    // buildx names the container of a docker-container builder's first node this way
+    const { exitCode, stderr } = await runCommand('docker', ['update', ...limits, `buildx_buildkit_${SANDBOX_BUILDER}0`], { timeoutMs: 30000 });
+    if (exitCode !== 0) {
+        throw new Error(`Failed to limit sandbox builder: ${lastErrorLine(stderr)}`);
+    }
+}
+
+/**
+ * `docker buildx build` flags for sandboxed builds: the sandbox builder,
+ * loading the result into the local image store, and no network for RUN
+ * steps (base images are still pulled).
+ */
+function sandboxBuildArgs(): string[] {
+    return ['--builder', SANDBOX_BUILDER, '--load', '--network', 'none'];
+}
+
+/**
+ * Create the internal sandbox network unless it already exists.
+ */
+async function ensureSandboxNetwork(): Promise<void> {
+    const inspect = await runCommand('docker', ['network', 'inspect', SANDBOX_NETWORK], { timeoutMs: 30000 });
+    if (inspect.exitCode === 0) return;
+
+    const { exitCode, stderr } = await runCommand('docker', ['network', 'create', '--internal', SANDBOX_NETWORK], { timeoutMs: 30000 });
+    // Another build may have created it in the meantime
+    if (exitCode !== 0 && !/already exists/i.test(stderr)) {
+        throw new Error(`Failed to create sandbox network: ${lastErrorLine(stderr)}`);
+    }
+    logger.info({ network: SANDBOX_NETWORK }, '🧱 Created sandbox network');
+}
+
+/**
+ * A sandboxed container's IP address on the network it runs on.
+ */
+async function getSandboxAddress(containerId: string, network: string): Promise<string> {
+    const { exitCode, stdout, stderr } = await runCommand('docker', [
+        'inspect',
+        '--format', `{{(index .NetworkSettings.Networks "${network}").IPAddress}}`,
+        containerId
+    ], { timeoutMs: 30000 });
+    const address = stdout.trim();
+    if (exitCode !== 0 || !net.isIP(address)) {
+        throw new Error(`Could not find the sandboxed container's address: ${lastErrorLine(stderr) || address}`);
+    }
+    return address;
+}
+
+/**
+ * Run a Docker container with the specified image, port mapping and profile.
+ * Sandboxed containers get no port mapping (`hostPort` is undefined).
+ */
+async function runContainer(imageName: string, hostPort: number | undefined, key: DeploymentKey, profile: ContainerProfile, options: BuildContainerOptions = {}): Promise<string> {
     // Validate port
-    if (!Number.isInteger(hostPort) || hostPort < PORT_CONFIG.min || hostPort > PORT_CONFIG.max) {
+    if (!options.sandbox && (hostPort === undefined || !Number.isInteger(hostPort) || hostPort < PORT_CONFIG.min || hostPort > PORT_CONFIG.max)) {
         throw new Error(`Invalid hostPort: ${hostPort}`);
     }
 
-    const containerName = `preview-${prNumber}`;
-    const mapping = `${hostPort}:${DOCKER_CONFIG.containerPort}`;
+    const containerName = containerNameFor(key, options.revision);
+    const containerPort = options.containerPort ?? DOCKER_CONFIG.containerPort;
 
-    logger.info({ imageName, hostPort, containerName }, '🏃 Starting container...');
+    logger.info({ imageName, hostPort, containerName, sandbox: Boolean(options.sandbox), profile }, '🏃 Starting container...');
 
-    const { stdout, exitCode, stderr } = await runCommand('docker', [
-        'run',
-        '-d',
-        '--name', containerName,
-        '-p', mapping,
-        imageName
-    ], { timeoutMs: DOCKER_CONFIG.runTimeoutMs });
+    const { repoFullName, prNumber } = parseDeploymentKey(key);
+    const labels: Record<string, string> = { ...options.labels, 'envzilla.repo': repoFullName, 'envzilla.pr': String(prNumber) };
+    if (options.sandbox) {
+        // Lets startup reconciliation find the app without a published port
+        labels['envzilla.sandbox'] = 'true';
+        labels['envzilla.port'] = String(containerPort);
+        labels['envzilla.network'] = options.network ?? SANDBOX_NETWORK;
+    }
+    const labelArgs = Object.entries(labels)
+        .flatMap(([key, value]) => ['--label', `${key}=${value}`]);
+    // Stored secrets win over variables committed in .envzilla.yml
+    const envArgs = Object.entries(options.env || {})
+        .filter(([name]) => !(options.secrets && name in options.secrets))
+        .flatMap(([name, value]) => ['-e', `${name}=${value}`]);
+    const profileArgs = containerProfileArgs(profile);
+    const network = options.sandbox ? options.network ?? SANDBOX_NETWORK : options.network;
+    const networkArgs = network ? ['--network', network] : [];
+    // Loopback only, so nobody can reach a preview around EnvZilla's proxy
+    // and its access protection
+    const portArgs = options.sandbox ? [] : ['-p', `127.0.0.1:${hostPort}:${containerPort}`];
+
+    const envFile = Object.keys(options.secrets || {}).length > 0 ? await writeEnvFile(options.secrets!) : undefined;
+    const envFileArgs = envFile ? ['--env-file', envFile] : [];
+
+    let result: { stdout: string; stderr: string; exitCode: number };
+    try {
+        result = await runCommand('docker', [
+            'run',
+            '-d',
+            '--name', containerName,
+            ...portArgs,
+            ...labelArgs,
+            ...envArgs,
+            ...envFileArgs,
+            ...networkArgs,
+            ...profileArgs,
+            imageName
+        ], { timeoutMs: DOCKER_CONFIG.runTimeoutMs, signal: options.signal, onOutput: options.onOutput });
+    } catch (error) {
+        // The container may have been created before the CLI was killed
+        if (error instanceof BuildCancelledError) {
+            await runCommand('docker', ['rm', '-f', containerName], { timeoutMs: 30000 }).catch(() => undefined);
+        }
+        throw error;
+    } finally {
+        if (envFile) await fs.promises.rm(path.dirname(envFile), { recursive: true, force: true }).catch(() => undefined);
+    }
 
+    const { stdout, exitCode, stderr } = result;
     if (exitCode !== 0) {
-        throw new Error(`Docker run failed: ${stderr}`);
+        throw new Error(`Docker run failed: ${lastErrorLine(stderr)}`);
     }
 
     const containerId = stdout.trim().split('\n')[0] || '';
@@ -231,10 +565,22 @@ async function runContainer(imageName: string, hostPort: number, prNumber: numbe
     return containerId;
 }
 
+/**
+ * Write variables to a `NAME=value` file only the current user can read, in a
+ * fresh temporary directory. The caller removes the directory.
+ */
+async function writeEnvFile(values: Record<string, string>): Promise<string> {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'envzilla-env-'));
+    const filePath = path.join(dir, 'env');
+    const contents = Object.entries(values).map(([name, value]) => `${name}=${value}`).join('\n') + '\n';
+    await fs.promises.writeFile(filePath, contents, { encoding: 'utf8', mode: 0o600 });
+    return filePath;
+}
+
 /**
  * Find a free port by sampling random ports and checking availability.
  */
-async function findFreePort(): Promise<number> {
+export async function findFreePort(): Promise<number> {
     const tried = new Set<number>();
     const total = PORT_CONFIG.attempts;
 
@@ -0,0 +1,181 @@
+import fs from 'fs';
+import path from 'path';
+import { EventEmitter } from 'events';
+import logger from '../utils/logger.js';
+import { DeploymentKey, dockerSafeId, parseDeploymentKey } from './deploymentKey.js';
+
+export type BuildLogStream = 'stdout' | 'stderr' | 'envzilla';
+
+export type BuildLogOutcome = 'succeeded' | 'failed' | 'cancelled';
+
+export type BuildLogEvent =
+  | { type: 'output'; stream: BuildLogStream; text: string }
+  | { type: 'end'; outcome: BuildLogOutcome };
+
+/**
+ * Settings are read on use rather than at import time so values from `.env`
+ * apply.
+ */
+function logConfig() {
+  return {
+    dir: path.resolve(process.env.BUILD_LOG_DIR || path.join(process.cwd(), 'data', 'logs')),
+    // Per build; output past this is dropped with a marker
+    maxBytes: Number(process.env.BUILD_LOG_MAX_BYTES) || 5 * 1024 * 1024,
+    // Logs of earlier builds kept next to the current one
+    keep: Number(process.env.BUILD_LOG_KEEP) || 5,
+  };
+}
+
+function logPath(dir: string, key: DeploymentKey, previous = 0): string {
+  return path.join(dir, previous > 0 ? `${dockerSafeId(key)}.${previous}.log` : `${dockerSafeId(key)}.log`);
+}
+
+// Logs of builds that are still running, so followers can attach to them
+const activeLogs = new Map<DeploymentKey, BuildLog>();
+
+/**
+ * Output of one build (clone, docker build, docker run and EnvZilla's own
+ * steps), written to disk and broadcast to live followers.
+ */
+export class BuildLog {
+  private readonly file: fs.WriteStream;
+  private readonly events = new EventEmitter();
+  private readonly startedAt = Date.now();
+  private text = '';
+  private bytes = 0;
+  private truncated = false;
+  private outcome?: BuildLogOutcome;
+
+  constructor(readonly key: DeploymentKey, filePath: string, private readonly maxBytes: number) {
+    this.file = fs.createWriteStream(filePath, { flags: 'w', mode: 0o640 });
+    this.file.on('error', err => logger.warn({ deployment: key, filePath, err: err.message }, 'Failed to write build log'));
+    this.events.setMaxListeners(0);
+  }
+
+  /**
+   * Everything logged so far for this build.
+   */
+  contents(): string {
+    return this.text;
+  }
+
+  get finished(): boolean {
+    return this.outcome !== undefined;
+  }
+
+  write(stream: BuildLogStream, text: string): void {
+    if (this.finished || this.truncated || !text) return;
+
+    const size = Buffer.byteLength(text);
+    if (this.bytes + size > this.maxBytes) {
+      this.truncated = true;
+      this.append('envzilla', `\n==> Log truncated: builds may log at most ${this.maxBytes} bytes\n`);
+      return;
+    }
+    this.bytes += size;
+    this.append(stream, text);
+  }
+
+  /**
+   * Record one of EnvZilla's own build steps.
+   */
+  step(message: string): void {
+    this.write('envzilla', `==> ${message}\n`);
+  }
+
+  /**
+   * Close the log. Followers receive an `end` event.
+   */
+  async end(outcome: BuildLogOutcome): Promise<void> {
+    if (this.finished) return;
+    const seconds = Math.round((Date.now() - this.startedAt) / 1000);
+    this.append('envzilla', `==> Build ${outcome} after ${seconds}s\n`);
+    this.outcome = outcome;
+    if (activeLogs.get(this.key) === this) activeLogs.delete(this.key);
+
+    this.events.emit('event', { type: 'end', outcome } satisfies BuildLogEvent);
+    this.events.removeAllListeners();
+    await new Promise<void>(resolve => this.file.end(() => resolve()));
+  }
+
+  /**
+   * Receive output as it is written. Returns a function that unsubscribes.
+   */
+  subscribe(listener: (event: BuildLogEvent) => void): () => void {
+    this.events.on('event', listener);
+    return () => { this.events.off('event', listener); };
+  }
+
+  private append(stream: BuildLogStream, text: string) {
+    this.text += text;
+    this.file.write(text);
+    this.events.emit('event', { type: 'output', stream, text } satisfies BuildLogEvent);
+  }
+}
+
+/**
+ * Rotate the deployment's earlier logs and open a fresh one for a new build.
+ */
+export async function startBuildLog(key: DeploymentKey, meta: { branch?: string; commitSha?: string } = {}): Promise<BuildLog> {
+  const { dir, maxBytes, keep } = logConfig();
+  await fs.promises.mkdir(dir, { recursive: true });
+  await activeLogs.get(key)?.end('cancelled');
+
+  // `<id>.log` → `<id>.1.log` → … → `<id>.<keep>.log`, dropping the oldest
+  await fs.promises.rm(logPath(dir, key, keep), { force: true });
+  for (let i = keep - 1; i >= 0; i--) {
+    await fs.promises.rename(logPath(dir, key, i), logPath(dir, key, i + 1)).catch(() => undefined);
+  }
+
+  const log = new BuildLog(key, logPath(dir, key), maxBytes);
+  activeLogs.set(key, log);
+
+  const ref = [meta.branch, meta.commitSha?.slice(0, 7)].filter(Boolean).join(' @ ');
+  log.step(`Build for ${key}${ref ? ` (${ref})` : ''} started at ${new Date().toISOString()}`);
+  return log;
+}
+
+/**
+ * Log of the build currently running for a deployment, if any.
+ */
+export function getActiveBuildLog(key: DeploymentKey): BuildLog | undefined {
+  return activeLogs.get(key);
+}
+
+/**
+ * Read a deployment's build log: the latest build, or the `previous`-th one
+ * before it. Resolves to undefined when there is no such log.
+ */
+export async function readBuildLog(key: DeploymentKey, previous = 0): Promise<string | undefined> {
+  const active = activeLogs.get(key);
+  if (active && previous === 0) return active.contents();
+
+  try {
+    return await fs.promises.readFile(logPath(logConfig().dir, key, previous), 'utf8');
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Delete all build logs of a deployment (once it has been destroyed).
+ */
+export async function removeBuildLogs(key: DeploymentKey): Promise<void> {
+  const { dir, keep } = logConfig();
+  for (let i = 0; i <= keep; i++) {
+    await fs.promises.rm(logPath(dir, key, i), { force: true });
+  }
+}
+
+/**
+ * Link to a deployment's build log on this server's API, for PR comments.
+ * Needs PUBLIC_URL; returns undefined without it.
+ */
+export function buildLogUrl(key: DeploymentKey): string | undefined {
+  const base = process.env.PUBLIC_URL;
+  if (!base) return undefined;
+  const { repoFullName, prNumber } = parseDeploymentKey(key);
+  const url = new URL(`deployments/${prNumber}/logs`, base.endsWith('/') ? base : `${base}/`);
+  url.searchParams.set('repo', repoFullName);
+  return url.toString();
+}
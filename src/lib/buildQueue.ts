@@ -0,0 +1,151 @@
+import logger from '../utils/logger.js';
+import { DeploymentKey } from './deploymentKey.js';
+
+export type BuildJobOutcome<T> =
+  | { status: 'completed'; value: T }
+  // `value` is set when the build ran to completion before it noticed it was
+  // superseded, e.g. after it had already switched the preview over
+  | { status: 'superseded'; value?: T }
+  | { status: 'cancelled' };
+
+type AbortReason = 'superseded' | 'cancelled';
+
+export type BuildTask<T> = (signal: AbortSignal) => Promise<T>;
+
+interface QueuedJob<T> {
+  key: DeploymentKey;
+  commitSha?: string;
+  task: BuildTask<T>;
+  controller: AbortController;
+  enqueuedAt: number;
+  promise: Promise<BuildJobOutcome<T>>;
+  resolve: (outcome: BuildJobOutcome<T>) => void;
+  reject: (error: unknown) => void;
+}
+
+export interface BuildQueueStats {
+  concurrency: number;
+  running: DeploymentKey[];
+  pending: DeploymentKey[];
+}
+
+/**
+ * Job queue in front of the build worker.
+ *
+ * - At most `concurrency` builds run at once across all deployments.
+ * - Builds for the same deployment never overlap.
+ * - Each deployment has at most one pending build: a newer commit replaces a
+ *   pending build of an older one, and aborts the running build's signal so
+ *   it can stop early. Enqueuing a commit that is already pending or running
+ *   returns the existing job instead of building it twice.
+ * - `cancel` drops the pending build and aborts the running one.
+ */
+export class BuildQueue<T> {
+  private running = new Map<DeploymentKey, QueuedJob<T>>();
+  // Insertion order doubles as FIFO order across deployments
+  private pending = new Map<DeploymentKey, QueuedJob<T>>();
+
+  constructor(private readonly concurrency: number) {
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error(`Build concurrency must be a positive integer, got ${concurrency}`);
+    }
+  }
+
+  enqueue(key: DeploymentKey, commitSha: string | undefined, task: BuildTask<T>): Promise<BuildJobOutcome<T>> {
+    const running = this.running.get(key);
+    const pending = this.pending.get(key);
+
+    if (commitSha && pending?.commitSha === commitSha) {
+      logger.info({ deployment: key, commitSha }, 'Build for this commit is already queued');
+      return pending.promise;
+    }
+    if (commitSha && !pending && running?.commitSha === commitSha && !running.controller.signal.aborted) {
+      logger.info({ deployment: key, commitSha }, 'Build for this commit is already running');
+      return running.promise;
+    }
+
+    if (pending) {
+      this.pending.delete(key);
+      pending.resolve({ status: 'superseded' });
+      logger.info({ deployment: key, supersededSha: pending.commitSha, commitSha }, '⏭️ Replaced queued build with newer commit');
+    }
+    if (running && !running.controller.signal.aborted) {
+      running.controller.abort('superseded' satisfies AbortReason);
+      logger.info({ deployment: key, supersededSha: running.commitSha, commitSha }, '⏭️ Superseding in-flight build with newer commit');
+    }
+
+    let resolve!: QueuedJob<T>['resolve'];
+    let reject!: QueuedJob<T>['reject'];
+    const promise = new Promise<BuildJobOutcome<T>>((res, rej) => { resolve = res; reject = rej; });
+    const job: QueuedJob<T> = { key, commitSha, task, controller: new AbortController(), enqueuedAt: Date.now(), promise, resolve, reject };
+
+    this.pending.set(key, job);
+    logger.info({ deployment: key, commitSha, ...this.counts() }, '📥 Build queued');
+    this.drain();
+    return promise;
+  }
+
+  /**
+   * Cancel the pending and running builds for a deployment (for example when
+   * the PR is closed). Returns true if there was anything to cancel.
+   */
+  cancel(key: DeploymentKey): boolean {
+    const running = this.running.get(key);
+    const pending = this.pending.get(key);
+
+    if (pending) {
+      this.pending.delete(key);
+      pending.resolve({ status: 'cancelled' });
+    }
+    if (running && !running.controller.signal.aborted) {
+      running.controller.abort('cancelled' satisfies AbortReason);
+    }
+
+    const cancelled = Boolean(pending || running);
+    if (cancelled) logger.info({ deployment: key, ...this.counts() }, '🛑 Cancelled builds for deployment');
+    return cancelled;
+  }
+
+  stats(): BuildQueueStats {
+    return {
+      concurrency: this.concurrency,
+      running: Array.from(this.running.keys()),
+      pending: Array.from(this.pending.keys()),
+    };
+  }
+
+  private counts() {
+    return { running: this.running.size, pending: this.pending.size };
+  }
+
+  private drain() {
+    for (const [key, job] of this.pending) {
+      if (this.running.size >= this.concurrency) return;
+      if (this.running.has(key)) continue;
+      this.pending.delete(key);
+      this.start(job);
+    }
+  }
+
+  private start(job: QueuedJob<T>) {
+    const { key, commitSha, controller } = job;
+    this.running.set(key, job);
+    logger.info({ deployment: key, commitSha, waitedMs: Date.now() - job.enqueuedAt, ...this.counts() }, '▶️ Build started from queue');
+
+    // Once aborted, whatever the task returns or throws is reported as the abort
+    // reason; a superseded build that finished anyway still hands back its result
+    const abortedOutcome = (value?: T): BuildJobOutcome<T> =>
+      controller.signal.reason === 'cancelled' ? { status: 'cancelled' } : { status: 'superseded', value };
+
+    Promise.resolve()
+      .then(() => job.task(controller.signal))
+      .then(
+        value => job.resolve(controller.signal.aborted ? abortedOutcome(value) : { status: 'completed', value }),
+        error => controller.signal.aborted ? job.resolve(abortedOutcome()) : job.reject(error)
+      )
+      .finally(() => {
+        this.running.delete(key);
+        this.drain();
+      });
+  }
+}
@@ -0,0 +1,30 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { canRunChatOps, parseChatOpsCommand } from './chatOps.js';
+
+test('parseChatOpsCommand reads the command and its arguments', () => {
+  assert.deepEqual(parseChatOpsCommand('/envzilla extend 48h'), { name: 'extend', args: ['48h'] });
+  assert.deepEqual(parseChatOpsCommand('/envzilla approve abc1234'), { name: 'approve', args: ['abc1234'] });
+  assert.deepEqual(parseChatOpsCommand('  /EnvZilla   Rebuild  '), { name: 'rebuild', args: [] });
+});
+
+test('parseChatOpsCommand finds a command on a later line', () => {
+  assert.deepEqual(parseChatOpsCommand('Looks good, but the cache is stale.\r\n/envzilla rebuild\r\n'), { name: 'rebuild', args: [] });
+});
+
+test('parseChatOpsCommand ignores commands that are quoted or mentioned in prose', () => {
+  assert.equal(parseChatOpsCommand('> /envzilla destroy'), undefined);
+  assert.equal(parseChatOpsCommand('You can type /envzilla status to check'), undefined);
+  assert.equal(parseChatOpsCommand('/envzillas status'), undefined);
+  assert.equal(parseChatOpsCommand(''), undefined);
+});
+
+test('parseChatOpsCommand answers unknown or missing commands with help', () => {
+  assert.deepEqual(parseChatOpsCommand('/envzilla'), { name: 'help', args: [] });
+  assert.deepEqual(parseChatOpsCommand('/envzilla deploy now'), { name: 'help', args: [] });
+});
+
+test('canRunChatOps needs write access or more', () => {
+  for (const permission of ['admin', 'maintain', 'write']) assert.equal(canRunChatOps(permission), true);
+  for (const permission of ['triage', 'read', 'none']) assert.equal(canRunChatOps(permission), false);
+});
@@ -0,0 +1,49 @@
+/**
+ * `/envzilla <command>` slash commands typed in PR comments.
+ */
+
+export type ChatOpsCommandName = 'rebuild' | 'destroy' | 'logs' | 'extend' | 'status' | 'approve' | 'help';
+
+export interface ChatOpsCommand {
+  name: ChatOpsCommandName;
+  args: string[];
+}
+
+const COMMAND_NAMES: ChatOpsCommandName[] = ['rebuild', 'destroy', 'logs', 'extend', 'status', 'approve', 'help'];
+
+// Repository permissions allowed to run commands
+const ALLOWED_PERMISSIONS = ['admin', 'maintain', 'write'];
+
+/**
+ * Find the first `/envzilla` command in a comment. Only a line that starts
+ * with it counts, so quoting or mentioning a command in prose does nothing.
+ * An unknown command is returned as `help`.
+ */
+export function parseChatOpsCommand(body: string): ChatOpsCommand | undefined {
+  for (const line of body.split('\n')) {
+    const words = line.trim().split(/\s+/);
+    if (words[0].toLowerCase() !== '/envzilla') continue;
+
+    const name = (words[1] || 'help').toLowerCase() as ChatOpsCommandName;
+    if (!COMMAND_NAMES.includes(name)) return { name: 'help', args: [] };
+    return { name, args: words.slice(2) };
+  }
+  return undefined;
+}
+
+export function canRunChatOps(permission: string): boolean {
+  return ALLOWED_PERMISSIONS.includes(permission);
+}
+
+export const CHATOPS_HELP = [
+  'EnvZilla commands:',
+  '',
+  '| Command | |',
+  '|---|---|',
+  '| `/envzilla rebuild` | Build the PR\'s latest commit again |',
+  '| `/envzilla destroy` | Tear the preview down (the next push brings it back) |',
+  '| `/envzilla logs` | Link to the latest build log |',
+  '| `/envzilla extend 48h` | Keep the preview around longer (m, h, d or w) |',
+  '| `/envzilla status` | Show the preview\'s status |',
+  '| `/envzilla approve <commit>` | Build a PR from a fork once its code has been reviewed |',
+].join('\n');
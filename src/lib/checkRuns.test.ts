@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { dockerfileAnnotations } from './checkRuns.js';
+
+const BUILDKIT_LOG = [
+  '#7 [3/4] RUN npm ci',
+  '#7 ERROR: process "/bin/sh -c npm ci" did not complete successfully: exit code: 1',
+  '------',
+  ' > [3/4] RUN npm ci:',
+  '------',
+  'Dockerfile:12',
+  '--------------------',
+  '  10 |     COPY package*.json ./',
+  '  11 |     ',
+  '  12 | >>> RUN npm ci',
+  '--------------------',
+  'ERROR: failed to solve: process "/bin/sh -c npm ci" did not complete successfully: exit code: 1',
+].join('\n');
+
+test('dockerfileAnnotations points at the failing BuildKit instruction', () => {
+  assert.deepEqual(dockerfileAnnotations(BUILDKIT_LOG, './Dockerfile'), [{
+    path: 'Dockerfile',
+    start_line: 12,
+    end_line: 12,
+    annotation_level: 'failure',
+    title: 'Docker build failed',
+    message: 'process "/bin/sh -c npm ci" did not complete successfully: exit code: 1',
+  }]);
+});
+
+test('dockerfileAnnotations uses the Dockerfile path from the repository root', () => {
+  const log = BUILDKIT_LOG.replace('Dockerfile:12', 'docker/Dockerfile:12');
+  const [annotation] = dockerfileAnnotations(log, 'docker/Dockerfile');
+  assert.equal(annotation.path, 'docker/Dockerfile');
+  assert.equal(annotation.start_line, 12);
+});
+
+test('dockerfileAnnotations reads legacy builder parse errors and CRLF output', () => {
+  const log = 'Step 1/3 : FROM node\r\ndockerfile parse error on line 3: unknown instruction: RUNN\r\n';
+  const annotations = dockerfileAnnotations(log, 'Dockerfile');
+  assert.equal(annotations.length, 1);
+  assert.equal(annotations[0].start_line, 3);
+  assert.equal(annotations[0].message, 'dockerfile parse error: unknown instruction: RUNN');
+});
+
+test('dockerfileAnnotations ignores logs without Dockerfile errors', () => {
+  assert.deepEqual(dockerfileAnnotations('error: pathspec did not match\nsrc/index.ts:4\n', 'Dockerfile'), []);
+});
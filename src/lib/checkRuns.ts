@@ -0,0 +1,160 @@
+import path from 'path';
+import logger from '../utils/logger.js';
+import { DeploymentKey, parseDeploymentKey } from './deploymentKey.js';
+import { resolveGitHubToken } from './githubAuth.js';
+import { CheckRunAnnotation, CheckRunUpdate, createCheckRun, updateCheckRun } from './githubClient.js';
+
+/**
+ * Name of the check run, and so of the status check branch protection can
+ * require.
+ */
+export const CHECK_RUN_NAME = 'EnvZilla Preview';
+
+/**
+ * Whether preview builds are reported as Check Runs. The App needs the
+ * "Checks" read & write permission for this.
+ */
+function checksEnabled(): boolean {
+  return process.env.GITHUB_CHECKS !== 'false';
+}
+
+interface TrackedCheckRun {
+  // Undefined until created, or when creating it failed
+  id?: number;
+  // Set once a conclusion was sent; later updates (e.g. from a duplicate
+  // webhook delivery) are ignored rather than creating a second check run
+  completed?: boolean;
+  // Updates are applied in order so a late progress update can't reopen a
+  // completed check run
+  chain: Promise<void>;
+}
+
+// Check runs by deployment and commit. Finished ones are kept until the
+// deployment's next commit is queued.
+const checkRuns = new Map<string, TrackedCheckRun>();
+
+function enqueue(
+  key: DeploymentKey,
+  headSha: string,
+  installationId: number | string | undefined,
+  update: CheckRunUpdate
+): Promise<void> {
+  if (!checksEnabled()) return Promise.resolve();
+
+  const runKey = `${key}@${headSha}`;
+  let tracked = checkRuns.get(runKey);
+  if (!tracked) {
+    tracked = { chain: Promise.resolve() };
+    checkRuns.set(runKey, tracked);
+  }
+  const run = tracked;
+  if (run.completed) return run.chain;
+  if (update.conclusion) run.completed = true;
+  const { repoFullName } = parseDeploymentKey(key);
+
+  run.chain = run.chain
+    .then(async () => {
+      const token = await resolveGitHubToken(installationId);
+      if (!token) return;
+      if (run.id === undefined) {
+        // Created on first use, e.g. when the server restarted mid-build
+        run.id = await createCheckRun(token, repoFullName, CHECK_RUN_NAME, headSha, update);
+      } else {
+        await updateCheckRun(token, repoFullName, run.id, update);
+      }
+    })
+    .catch((err: any) => {
+      logger.warn({ deployment: key, headSha, err: err?.message }, 'Failed to report check run');
+    });
+  return run.chain;
+}
+
+/**
+ * Create the commit's check run as queued, when its build is queued.
+ */
+export function queueCheckRun(key: DeploymentKey, installationId: number | string | undefined, headSha: string, detailsUrl?: string): Promise<void> {
+  // A finished check run is replaced by a new one when the same commit is
+  // built again, e.g. after the PR is reopened
+  for (const [runKey, run] of checkRuns) {
+    if (runKey.startsWith(`${key}@`) && run.completed) checkRuns.delete(runKey);
+  }
+  // Still queued or building, e.g. a redelivered webhook
+  if (checkRuns.has(`${key}@${headSha}`)) return Promise.resolve();
+  return enqueue(key, headSha, installationId, {
+    status: 'queued',
+    detailsUrl,
+    output: { title: 'Waiting to build', summary: 'The preview build is queued.' },
+  });
+}
+
+/**
+ * Mark the check run in progress with a short description of the current
+ * step.
+ */
+export function reportCheckRunProgress(
+  key: DeploymentKey,
+  installationId: number | string | undefined,
+  headSha: string,
+  title: string,
+  detailsUrl?: string
+): Promise<void> {
+  return enqueue(key, headSha, installationId, {
+    status: 'in_progress',
+    detailsUrl,
+    output: { title, summary: `${title}…` },
+  });
+}
+
+/**
+ * Finish the check run with a conclusion and a summary.
+ */
+export function completeCheckRun(
+  key: DeploymentKey,
+  installationId: number | string | undefined,
+  headSha: string,
+  conclusion: 'success' | 'failure' | 'cancelled',
+  output: { title: string; summary: string; annotations?: CheckRunAnnotation[] },
+  detailsUrl?: string
+): Promise<void> {
+  return enqueue(key, headSha, installationId, { status: 'completed', conclusion, output, detailsUrl });
+}
+
+/**
+ * Turn errors BuildKit reports against the Dockerfile into check run
+ * annotations. `dockerfile` is the Dockerfile's path from the repository root.
+ */
+export function dockerfileAnnotations(log: string, dockerfile: string): CheckRunAnnotation[] {
+  const annotationPath = path.posix.normalize(dockerfile.replace(/\\/g, '/')).replace(/^\.\//, '');
+  const baseName = path.posix.basename(annotationPath);
+  const lines = log.split('\n').map(line => line.replace(/\r$/, ''));
+  const annotations: CheckRunAnnotation[] = [];
+
+  const add = (line: number, message: string) => {
+    if (!annotations.some(a => a.start_line === line)) {
+      annotations.push({
+        path: annotationPath,
+        start_line: line,
+        end_line: line,
+        annotation_level: 'failure',
+        title: 'Docker build failed',
+        message,
+      });
+    }
+  };
+
+  lines.forEach((text, i) => {
+    // BuildKit quotes the failing instruction as `Dockerfile:12` followed by
+    // an excerpt and the `ERROR:` line
+    const location = text.match(/^(\S+):(\d+)$/);
+    if (location && path.posix.basename(location[1].replace(/\\/g, '/')) === baseName) {
+      const error = lines.slice(i + 1, i + 20).find(l => l.startsWith('ERROR:'));
+      add(Number(location[2]), error ? error.replace(/^ERROR:\s*(failed to solve:\s*)?/, '') : 'Build failed at this instruction');
+      return;
+    }
+    // Parse errors from the legacy builder
+    const parseError = text.match(/dockerfile parse error (?:on )?line (\d+): (.+)$/i);
+    if (parseError) add(Number(parseError[1]), `dockerfile parse error: ${parseError[2]}`);
+  });
+
+  return annotations;
+}
@@ -2,15 +2,13 @@ import { spawn, ChildProcess } from 'child_process';
 import fs from 'fs';
 import path from 'path';
 import logger from '../utils/logger.js';
+import { DeploymentKey, dockerSafeId } from './deploymentKey.js';
+import type { TunnelExitListener, TunnelInfo, TunnelProvider, TunnelStatus } from './tunnelProvider.js';
 
-export interface TunnelInfo {
-  publicUrl: string;
-  proto: string;
-  port: number;
-}
-
-// Track cloudflared processes by PR number so we can stop them later
-const cloudflaredProcesses = new Map<number, ChildProcess>();
+// Track cloudflared processes by deployment (repo + PR) so we can stop them later
+const cloudflaredProcesses = new Map<DeploymentKey, ChildProcess>();
+const tunnels = new Map<DeploymentKey, TunnelStatus>();
+const exitListeners: TunnelExitListener[] = [];
 
 function extractUrlFromChunk(chunk: string): string | null {
   const m = chunk.match(/https?:\/\/[^\s'"\)]+/i);
@@ -44,12 +42,12 @@ function isIgnorableCloudflareUrl(urlStr: string): boolean {
 
 /**
  * Start a Cloudflare Tunnel using the `cloudflared` binary. Requires cloudflared installed.
- * Spawns `cloudflared tunnel --url http://localhost:<port>` and resolves with the public URL parsed from stdout.
+ * Spawns `cloudflared tunnel --url http://127.0.0.1:<port>` and resolves with the public URL parsed from stdout.
  */
-export async function startHttpTunnel(port: number, name?: string, region?: string, prNumber?: number): Promise<TunnelInfo> {
-  logger.info({ port, name, region, prNumber }, '🔌 Starting cloudflared tunnel');
+export async function startHttpTunnel(port: number, name?: string, region?: string, key?: DeploymentKey): Promise<TunnelInfo> {
+  logger.info({ port, name, region, deployment: key }, '🔌 Starting cloudflared tunnel');
 
-  const args = ['tunnel', '--url', `http://localhost:${port}`];
+  const args = ['tunnel', '--url', `http://127.0.0.1:${port}`];
 
   // Allow overriding the protocol via environment for testing (quic or http2).
   // Default to http2 which avoids UDP buffer / QUIC issues on many hosts.
@@ -61,16 +59,22 @@ export async function startHttpTunnel(port: number, name?: string, region?: stri
     const certPath = path.resolve(process.cwd(), 'keys', 'cert.pem');
     if (fs.existsSync(certPath)) {
       args.push('--origincert', certPath);
-      logger.info({ pr: prNumber, certPath }, 'Using Cloudflare origincert for cloudflared');
+      logger.info({ deployment: key, certPath }, 'Using Cloudflare origincert for cloudflared');
     }
   } catch (e) {
-    logger.warn({ err: e, pr: prNumber }, 'Failed to check for cloudflared origincert, continuing without it');
+    logger.warn({ err: e, deployment: key }, 'Failed to check for cloudflared origincert, continuing without it');
   }
 
   const childEnv = { ...process.env };
 
+  // A deployment only ever has one tunnel; don't leave the old process running
+  if (key) await stopTunnelForPR(key);
+
   const child = spawn('cloudflared', args, { stdio: ['ignore', 'pipe', 'pipe'], env: childEnv });
-  if (prNumber) cloudflaredProcesses.set(prNumber, child);
+  if (key) {
+    cloudflaredProcesses.set(key, child);
+    tunnels.set(key, { deployment: key, provider: 'cloudflared', state: 'starting', port, startedAt: Date.now() });
+  }
 
   let resolved = false;
 
@@ -81,21 +85,21 @@ export async function startHttpTunnel(port: number, name?: string, region?: stri
       if (resolved) return;
       resolved = true;
       try { child.kill(); } catch {}
-      if (prNumber) cloudflaredProcesses.delete(prNumber);
+      if (key) cloudflaredProcesses.delete(key);
       reject(new Error('Timed out waiting for cloudflared to print public URL'));
     }, timeoutMs);
 
     const handleChunk = (s: string, stream: 'stdout' | 'stderr') => {
       if (!s) return;
       const trimmed = s.trim();
-      logger.info({ pr: prNumber, stream, chunk: trimmed, protocol }, `cloudflared ${stream}`);
+      logger.info({ deployment: key, stream, chunk: trimmed, protocol }, `cloudflared ${stream}`);
       if (resolved) return;
       const url = extractUrlFromChunk(trimmed);
       if (url) {
         // Some cloudflared messages contain non-tunnel links (eg. website-terms).
         // Ignore those and keep waiting for the actual quick-tunnel URL.
         if (isIgnorableCloudflareUrl(url)) {
-          logger.info({ pr: prNumber, url }, 'Ignoring non-tunnel cloudflared URL');
+          logger.info({ deployment: key, url }, 'Ignoring non-tunnel cloudflared URL');
           return;
         }
 
@@ -115,7 +119,7 @@ export async function startHttpTunnel(port: number, name?: string, region?: stri
       // Provide a clearer error message for the common QUIC/UDP buffer issue.
       if (/failed to sufficiently increase receive buffer size/i.test(s)) {
         // include a hint rather than immediately rejecting so caller can decide
-        logger.warn({ pr: prNumber }, 'cloudflared reported UDP buffer size issue — consider increasing net.core.rmem_max / rmem_default on the host or switching to HTTP/2 protocol');
+        logger.warn({ deployment: key }, 'cloudflared reported UDP buffer size issue — consider increasing net.core.rmem_max / rmem_default on the host or switching to HTTP/2 protocol');
       }
 
       // Only treat true fatal errors as failures. Cloudflared prints many non-fatal
@@ -124,7 +128,7 @@ export async function startHttpTunnel(port: number, name?: string, region?: stri
         resolved = true;
         clearTimeout(timeout);
         try { child.kill(); } catch {}
-        if (prNumber) cloudflaredProcesses.delete(prNumber);
+        if (key) cloudflaredProcesses.delete(key);
         // Add the original stderr output to the error for debugging.
         const hint = /receive buffer size/i.test(s) ? ' (UDP buffer issue detected; try --protocol http2 or increase host UDP buffer limits)' : '';
         reject(new Error(`cloudflared error: ${s.trim()}${hint}`));
@@ -132,36 +136,89 @@ export async function startHttpTunnel(port: number, name?: string, region?: stri
     });
 
     child.on('exit', (code, signal) => {
+      if (key && cloudflaredProcesses.get(key) === child) {
+        cloudflaredProcesses.delete(key);
+        tunnels.delete(key);
+        // Died after the URL was handed out, not through stopTunnelForPR
+        if (resolved) {
+          const error = new Error(`cloudflared exited (code=${code} signal=${signal})`);
+          for (const listener of exitListeners) listener(key, error);
+        }
+      }
       if (resolved) return;
       resolved = true;
       clearTimeout(timeout);
-      if (prNumber) cloudflaredProcesses.delete(prNumber);
+      if (key) cloudflaredProcesses.delete(key);
       reject(new Error(`cloudflared exited unexpectedly (code=${code} signal=${signal})`));
     });
   });
 
-  const publicUrl = await urlPromise;
-  logger.info({ publicUrl, port, prNumber }, '✅ cloudflared tunnel established');
+  let publicUrl: string;
+  try {
+    publicUrl = await urlPromise;
+  } catch (error) {
+    if (key && !cloudflaredProcesses.has(key)) tunnels.delete(key);
+    throw error;
+  }
+  const status = key ? tunnels.get(key) : undefined;
+  if (status) {
+    status.state = 'connected';
+    status.publicUrl = publicUrl;
+  }
+  logger.info({ publicUrl, port, deployment: key }, '✅ cloudflared tunnel established');
   return { publicUrl, proto: publicUrl.startsWith('https') ? 'https' : 'http', port };
 }
 
-export async function stopTunnelForPR(prNumber: number): Promise<void> {
-  const child = cloudflaredProcesses.get(prNumber);
+export async function stopTunnelForPR(key: DeploymentKey): Promise<void> {
+  const child = cloudflaredProcesses.get(key);
   if (!child) return;
   try {
     child.kill();
-    cloudflaredProcesses.delete(prNumber);
-    logger.info({ pr: prNumber }, '🛑 cloudflared process killed for PR');
+    cloudflaredProcesses.delete(key);
+    tunnels.delete(key);
+    logger.info({ deployment: key }, '🛑 cloudflared process killed for PR');
   } catch (err: any) {
-    logger.warn({ err, pr: prNumber }, 'Failed to kill cloudflared process for PR');
+    logger.warn({ err, deployment: key }, 'Failed to kill cloudflared process for PR');
   }
 }
 
 export async function stopAllTunnels(): Promise<void> {
-  for (const [pr, child] of cloudflaredProcesses.entries()) {
+  for (const [key, child] of cloudflaredProcesses.entries()) {
     try { child.kill(); } catch {}
-    cloudflaredProcesses.delete(pr);
+    cloudflaredProcesses.delete(key);
   }
+  tunnels.clear();
   logger.info({}, '🛑 All cloudflared processes killed');
 }
 
+/**
+ * One quick tunnel (a random trycloudflare.com URL) per preview.
+ */
+export class CloudflaredQuickTunnelProvider implements TunnelProvider {
+  readonly name = 'cloudflared';
+
+  start(key: DeploymentKey, port: number): Promise<TunnelInfo> {
+    return startHttpTunnel(port, `envzilla-${dockerSafeId(key)}`, undefined, key);
+  }
+
+  stop(key: DeploymentKey): Promise<void> {
+    return stopTunnelForPR(key);
+  }
+
+  status(key: DeploymentKey): TunnelStatus | undefined {
+    const status = tunnels.get(key);
+    return status && { ...status };
+  }
+
+  listActive(): TunnelStatus[] {
+    return Array.from(tunnels.values(), status => ({ ...status }));
+  }
+
+  stopAll(): Promise<void> {
+    return stopAllTunnels();
+  }
+
+  onExit(listener: TunnelExitListener): void {
+    exitListeners.push(listener);
+  }
+}
@@ -0,0 +1,287 @@
+import { spawn, ChildProcess } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { stringify as stringifyYaml } from 'yaml';
+import logger from '../utils/logger.js';
+import { runCommand, lastErrorLine } from './buildContainer.js';
+import { DeploymentKey, parseDeploymentKey } from './deploymentKey.js';
+import type { TunnelExitListener, TunnelInfo, TunnelProvider, TunnelStatus } from './tunnelProvider.js';
+
+/**
+ * Named Cloudflare tunnel mode. Instead of one quick tunnel per preview, a
+ * single `cloudflared tunnel run` serves every preview from a generated
+ * ingress config (hostname → http://127.0.0.1:<route port>). The config is
+ * rewritten when previews come and go, and a new connector is started on it
+ * before the old one is stopped, so running previews stay reachable. Hostnames
+ * are derived from the deployment, so preview URLs never change.
+ */
+
+export interface NamedTunnelConfig {
+  // Tunnel name or UUID, as created with `cloudflared tunnel create`
+  tunnel: string;
+  // Zone the preview hostnames live in, e.g. example.dev
+  domain: string;
+  // Hostname label(s) in front of the domain; {pr}, {repo} and {owner} are replaced
+  hostnameTemplate: string;
+  configPath: string;
+  credentialsFile?: string;
+}
+
+interface IngressRule {
+  hostname: string;
+  port: number;
+  addedAt: number;
+}
+
+const DEFAULT_HOSTNAME_TEMPLATE = 'pr-{pr}-{repo}';
+const CONNECT_TIMEOUT_MS = 30_000;
+
+const ingress = new Map<DeploymentKey, IngressRule>();
+// Hostnames whose DNS record was created by this process
+const routedHostnames = new Set<string>();
+let connector: ChildProcess | undefined;
+// Ingress the running connector was started with
+let appliedIngress: string | undefined;
+let reloadChain: Promise<void> = Promise.resolve();
+const exitListeners: TunnelExitListener[] = [];
+
+/**
+ * Named tunnel settings, or undefined when CLOUDFLARED_TUNNEL or
+ * CLOUDFLARED_TUNNEL_DOMAIN isn't set (quick tunnels are used then).
+ */
+export function namedTunnelConfig(): NamedTunnelConfig | undefined {
+  const tunnel = process.env.CLOUDFLARED_TUNNEL;
+  const domain = (process.env.CLOUDFLARED_TUNNEL_DOMAIN || '').trim().toLowerCase().replace(/^\.|\.$/g, '');
+  if (!tunnel || !domain) return undefined;
+  return {
+    tunnel,
+    domain,
+    hostnameTemplate: process.env.CLOUDFLARED_HOSTNAME_TEMPLATE || DEFAULT_HOSTNAME_TEMPLATE,
+    configPath: path.resolve(process.env.CLOUDFLARED_CONFIG_PATH || path.join(process.cwd(), 'data', 'cloudflared.yml')),
+    credentialsFile: process.env.CLOUDFLARED_CREDENTIALS_FILE || undefined,
+  };
+}
+
+function dnsLabel(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9-]+/g, '-').replace(/^-+|-+$/g, '') || 'x';
+}
+
+export function namedTunnelHostname(key: DeploymentKey, config: NamedTunnelConfig): string {
+  const { owner, repo, prNumber } = parseDeploymentKey(key);
+  const label = config.hostnameTemplate
+    .replace(/\{pr\}/g, String(prNumber))
+    .replace(/\{repo\}/g, dnsLabel(repo))
+    .replace(/\{owner\}/g, dnsLabel(owner));
+  return `${label}.${config.domain}`;
+}
+
+/**
+ * `--origincert` for keys/cert.pem when it exists (needed to manage DNS and
+ * by older cloudflared versions to run named tunnels).
+ */
+export function originCertArgs(): string[] {
+  const certPath = path.resolve(process.cwd(), 'keys', 'cert.pem');
+  return fs.existsSync(certPath) ? ['--origincert', certPath] : [];
+}
+
+function protocol(): string {
+  return process.env.CLOUDFLARED_PROTOCOL || 'http2';
+}
+
+async function writeConfig(config: NamedTunnelConfig): Promise<void> {
+  const document = {
+    tunnel: config.tunnel,
+    ...(config.credentialsFile ? { 'credentials-file': config.credentialsFile } : {}),
+    ingress: [
+      ...Array.from(ingress.values())
+        .sort((a, b) => a.hostname.localeCompare(b.hostname))
+        .map(rule => ({ hostname: rule.hostname, service: `http://127.0.0.1:${rule.port}` })),
+      // cloudflared requires a catch-all rule last
+      { service: 'http_status:404' },
+    ],
+  };
+  const tmpPath = `${config.configPath}.tmp`;
+  await fs.promises.mkdir(path.dirname(config.configPath), { recursive: true });
+  await fs.promises.writeFile(tmpPath, stringifyYaml(document), { encoding: 'utf8', mode: 0o600 });
+  await fs.promises.rename(tmpPath, config.configPath);
+}
+
+/**
+ * Start a connector on the current config and resolve once it has
+ * registered a connection with Cloudflare's edge.
+ */
+function startConnector(config: NamedTunnelConfig): Promise<ChildProcess> {
+  const args = ['tunnel', ...originCertArgs(), '--config', config.configPath, '--protocol', protocol(), 'run', config.tunnel];
+  const child = spawn('cloudflared', args, { stdio: ['ignore', 'pipe', 'pipe'] });
+
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    const fail = (error: Error) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeout);
+      try { child.kill(); } catch {}
+      reject(error);
+    };
+    const timeout = setTimeout(() => fail(new Error('Timed out waiting for cloudflared to connect the named tunnel')), CONNECT_TIMEOUT_MS);
+
+    const handleChunk = (chunk: Buffer) => {
+      const text = chunk.toString().trim();
+      if (!text) return;
+      logger.debug({ tunnel: config.tunnel, chunk: text }, 'cloudflared output');
+      if (!settled && /Registered tunnel connection/i.test(text)) {
+        settled = true;
+        clearTimeout(timeout);
+        resolve(child);
+      }
+    };
+    child.stdout?.on('data', handleChunk);
+    child.stderr?.on('data', handleChunk);
+
+    child.on('error', fail);
+    child.on('exit', (code, signal) => {
+      if (connector === child) {
+        connector = undefined;
+        logger.warn({ tunnel: config.tunnel, code, signal }, 'Named cloudflared tunnel exited');
+        const error = new Error(`cloudflared exited (code=${code} signal=${signal})`);
+        for (const key of ingress.keys()) {
+          for (const listener of exitListeners) listener(key, error);
+        }
+      }
+      fail(new Error(`cloudflared exited unexpectedly (code=${code} signal=${signal})`));
+    });
+  });
+}
+
+/**
+ * Rewrite the config and replace the connector. Stops the tunnel altogether
+ * once no preview is left in it. Does nothing if the running connector
+ * already has the current ingress, e.g. when several previews restart it.
+ */
+async function reload(config: NamedTunnelConfig): Promise<void> {
+  const rules = JSON.stringify(Array.from(ingress.values(), rule => [rule.hostname, rule.port]).sort());
+  if (connector && rules === appliedIngress) return;
+
+  await writeConfig(config);
+  const previous = connector;
+
+  if (ingress.size === 0) {
+    connector = undefined;
+    appliedIngress = undefined;
+    previous?.kill();
+    if (previous) logger.info({ tunnel: config.tunnel }, '🛑 Named cloudflared tunnel stopped');
+    return;
+  }
+
+  // Both connectors serve the tunnel until the new one takes over
+  connector = await startConnector(config);
+  appliedIngress = rules;
+  previous?.kill();
+  logger.info({ tunnel: config.tunnel, hostnames: ingress.size }, '🔁 Named cloudflared tunnel reloaded');
+}
+
+function scheduleReload(config: NamedTunnelConfig): Promise<void> {
+  const next = reloadChain.then(() => reload(config));
+  reloadChain = next.catch(() => undefined);
+  return next;
+}
+
+/**
+ * Point the hostname at the tunnel in DNS (a proxied CNAME). An existing
+ * record is left as it is; a failure is only logged, since the zone may
+ * already have a wildcard record for the tunnel.
+ */
+async function routeDns(config: NamedTunnelConfig, hostname: string): Promise<void> {
+  if (routedHostnames.has(hostname)) return;
+  try {
+    const { exitCode, stderr } = await runCommand('cloudflared', ['tunnel', ...originCertArgs(), 'route', 'dns', config.tunnel, hostname], { timeoutMs: 30_000 });
+    if (exitCode !== 0 && !/already exists/i.test(stderr)) throw new Error(lastErrorLine(stderr));
+    routedHostnames.add(hostname);
+  } catch (error: any) {
+    logger.warn({ hostname, error: error.message }, 'Failed to create DNS record for named tunnel hostname');
+  }
+}
+
+/**
+ * Add (or update) a preview in the named tunnel and return its public URL.
+ */
+async function addNamedTunnelRoute(key: DeploymentKey, port: number, config: NamedTunnelConfig): Promise<string> {
+  const hostname = namedTunnelHostname(key, config);
+  const current = ingress.get(key);
+  const publicUrl = `https://${hostname}`;
+  if (current?.hostname === hostname && current.port === port && connector) return publicUrl;
+
+  await routeDns(config, hostname);
+  ingress.set(key, { hostname, port, addedAt: current?.addedAt ?? Date.now() });
+  try {
+    await scheduleReload(config);
+  } catch (error) {
+    if (current) ingress.set(key, current);
+    else ingress.delete(key);
+    throw error;
+  }
+  logger.info({ deployment: key, publicUrl, port }, '✅ Preview added to named cloudflared tunnel');
+  return publicUrl;
+}
+
+async function removeNamedTunnelRoute(key: DeploymentKey, config: NamedTunnelConfig): Promise<void> {
+  if (!ingress.delete(key)) return;
+  try {
+    await scheduleReload(config);
+    logger.info({ deployment: key }, 'Preview removed from named cloudflared tunnel');
+  } catch (error: any) {
+    logger.warn({ deployment: key, error: error.message }, 'Failed to reload named cloudflared tunnel');
+  }
+}
+
+/**
+ * All previews in one named tunnel, with hostnames from the deployment.
+ */
+export class CloudflaredNamedTunnelProvider implements TunnelProvider {
+  readonly name = 'cloudflared-named';
+
+  constructor(private readonly config: NamedTunnelConfig) {}
+
+  async start(key: DeploymentKey, port: number): Promise<TunnelInfo> {
+    logger.info({ port, deployment: key, tunnel: this.config.tunnel }, '🔌 Adding preview to named cloudflared tunnel');
+    const publicUrl = await addNamedTunnelRoute(key, port, this.config);
+    return { publicUrl, proto: 'https', port };
+  }
+
+  stop(key: DeploymentKey): Promise<void> {
+    return removeNamedTunnelRoute(key, this.config);
+  }
+
+  status(key: DeploymentKey): TunnelStatus | undefined {
+    const rule = ingress.get(key);
+    return rule && this.toStatus(key, rule);
+  }
+
+  listActive(): TunnelStatus[] {
+    return Array.from(ingress.entries(), ([key, rule]) => this.toStatus(key, rule));
+  }
+
+  async stopAll(): Promise<void> {
+    ingress.clear();
+    const running = connector;
+    connector = undefined;
+    appliedIngress = undefined;
+    running?.kill();
+    logger.info({ tunnel: this.config.tunnel }, '🛑 Named cloudflared tunnel stopped');
+  }
+
+  onExit(listener: TunnelExitListener): void {
+    exitListeners.push(listener);
+  }
+
+  private toStatus(key: DeploymentKey, rule: IngressRule): TunnelStatus {
+    return {
+      deployment: key,
+      provider: this.name,
+      state: connector ? 'connected' : 'starting',
+      port: rule.port,
+      publicUrl: `https://${rule.hostname}`,
+      startedAt: rule.addedAt,
+    };
+  }
+}
@@ -0,0 +1,99 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { checkComposeModel } from './composePreview.js';
+
+let root: string;
+
+before(async () => {
+  root = await fs.promises.realpath(await fs.promises.mkdtemp(path.join(os.tmpdir(), 'envzilla-compose-')));
+  await fs.promises.mkdir(path.join(root, 'web'));
+  await fs.promises.symlink('/', path.join(root, 'host'));
+});
+
+after(async () => {
+  await fs.promises.rm(root, { recursive: true, force: true });
+});
+
+// Service settings as `docker compose config` renders them
+function model(web: Record<string, unknown>, top: Record<string, unknown> = {}): Record<string, any> {
+  return { services: { web: { image: 'node:20', ...web } }, ...top };
+}
+
+test('checkComposeModel accepts an ordinary project', async () => {
+  const issues = await checkComposeModel(model({
+    build: { context: path.join(root, 'web'), dockerfile: 'Dockerfile' },
+    volumes: [
+      { type: 'bind', source: path.join(root, 'web'), target: '/app' },
+      { type: 'volume', source: 'data', target: '/data' },
+    ],
+    security_opt: ['no-new-privileges:true'],
+    network_mode: 'bridge',
+  }, { volumes: { data: { name: 'envzilla-pr-1_data' } } }), root);
+  assert.deepEqual(issues, []);
+});
+
+test('checkComposeModel refuses host and container namespaces', async () => {
+  const issues = await checkComposeModel(model({
+    privileged: true,
+    network_mode: 'host',
+    pid: 'container:abc',
+    ipc: 'service:db',
+    cgroup: 'host',
+  }), root);
+  assert.deepEqual(issues, [
+    'web: privileged is not allowed',
+    'web: network_mode: host is not allowed',
+    'web: pid: container:abc is not allowed',
+    'web: ipc: service:db is not allowed',
+    'web: cgroup: host is not allowed',
+  ]);
+});
+
+test('checkComposeModel refuses settings that weaken isolation', async () => {
+  const issues = await checkComposeModel(model({
+    cap_add: ['SYS_ADMIN'],
+    devices: ['/dev/kvm:/dev/kvm'],
+    volumes_from: ['other'],
+    cgroup_parent: 'system.slice',
+    security_opt: ['seccomp:unconfined'],
+  }), root);
+  assert.deepEqual(issues, [
+    'web: cap_add is not allowed',
+    'web: devices are not allowed',
+    'web: volumes_from is not allowed',
+    'web: cgroup_parent is not allowed',
+    'web: security_opt seccomp:unconfined is not allowed',
+  ]);
+});
+
+test('checkComposeModel refuses host paths, including through symlinks', async () => {
+  const issues = await checkComposeModel(model({
+    build: { context: path.join(root, 'host', 'etc') },
+    volumes: [{ type: 'bind', source: '/var/run/docker.sock', target: '/var/run/docker.sock' }],
+    env_file: [{ path: '/etc/environment' }],
+  }), root);
+  assert.deepEqual(issues, [
+    'web: bind mount of /var/run/docker.sock is outside the repository',
+    'web: env_file /etc/environment is outside the repository',
+    `web: build context ${path.join(root, 'host', 'etc')} is outside the repository`,
+  ]);
+});
+
+test('checkComposeModel refuses volumes, secrets and configs that reach outside the project', async () => {
+  const issues = await checkComposeModel(model({}, {
+    volumes: {
+      etc: { driver: 'local', driver_opts: { type: 'none', o: 'bind', device: '/etc' } },
+      shared: { external: true, name: 'envzilla-pr-2_data' },
+    },
+    secrets: { key: { file: '/root/.ssh/id_rsa' } },
+    configs: { app: { file: path.join(root, 'web', 'app.conf') } },
+  }), root);
+  assert.deepEqual(issues, [
+    'volume etc: driver_opts are not allowed',
+    'volume shared: external volumes are not allowed',
+    'secrets key: /root/.ssh/id_rsa is outside the repository',
+  ]);
+});
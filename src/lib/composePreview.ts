@@ -0,0 +1,320 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import logger from '../utils/logger.js';
+import {
+  runCommand,
+  lastErrorLine,
+  findFreePort,
+  throwIfCancelled,
+  asStepError,
+  BuildResult,
+  BuildStep,
+  BuildStepError,
+  CommandOutputHandler,
+} from './buildContainer.js';
+import { ContainerProfile, ContainerProfileOverrides, resolveContainerProfile } from './containerProfile.js';
+import { DeploymentKey, dockerSafeId, parseDeploymentKey } from './deploymentKey.js';
+import type { ComposeConfig } from './repoConfig.js';
+
+/**
+ * Previews built from a repository's docker compose file. The project is
+ * rendered with `docker compose config`, checked, stripped of its published
+ * ports and started with only the exposed service published on a free host
+ * port. Redeploys update the project in place.
+ */
+
+const COMPOSE_TIMEOUT_MS = 10 * 60 * 1000;
+
+export interface ComposeContainer {
+  service: string;
+  containerId: string;
+}
+
+export interface ComposeBuildOptions {
+  // Port the exposed service listens on inside its container
+  containerPort: number;
+  // Passed to the exposed service; secrets win over env
+  env?: Record<string, string>;
+  secrets?: Record<string, string>;
+  // Repository overrides for the global container profile, applied to every
+  // service
+  profile?: ContainerProfileOverrides;
+  labels?: Record<string, string>;
+  signal?: AbortSignal;
+  onOutput?: CommandOutputHandler;
+}
+
+export function composeProjectFor(key: DeploymentKey): string {
+  return `envzilla-pr-${dockerSafeId(key)}`;
+}
+
+/**
+ * Environment for the compose CLI. Compose substitutes `${VAR}` in the file
+ * from its environment, so EnvZilla's own settings must not be in it.
+ */
+function composeEnv(): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = {};
+  for (const name of ['PATH', 'HOME', 'DOCKER_HOST', 'DOCKER_CONFIG', 'DOCKER_CONTEXT', 'DOCKER_CERT_PATH', 'DOCKER_TLS_VERIFY']) {
+    if (process.env[name] !== undefined) env[name] = process.env[name];
+  }
+  return env;
+}
+
+function compose(project: string, args: string[], options: { cwd?: string; signal?: AbortSignal; onOutput?: CommandOutputHandler; timeoutMs?: number } = {}) {
+  return runCommand('docker', ['compose', '-p', project, ...args], {
+    timeoutMs: options.timeoutMs ?? COMPOSE_TIMEOUT_MS,
+    cwd: options.cwd,
+    env: composeEnv(),
+    signal: options.signal,
+    onOutput: options.onOutput,
+  });
+}
+
+/**
+ * Containers of a compose project, found through the label compose puts on
+ * them (so it works without the compose file).
+ */
+export async function listComposeContainers(project: string): Promise<ComposeContainer[]> {
+  const { exitCode, stdout, stderr } = await runCommand('docker', [
+    'ps', '-a', '--no-trunc',
+    '--filter', `label=com.docker.compose.project=${project}`,
+    '--format', '{{.ID}}\t{{.Label "com.docker.compose.service"}}'
+  ], { timeoutMs: 30_000 });
+  if (exitCode !== 0) throw new Error(`Failed to list compose containers: ${lastErrorLine(stderr)}`);
+  return stdout.trim().split('\n').filter(Boolean).map(line => {
+    const [containerId, service] = line.split('\t');
+    return { service, containerId };
+  });
+}
+
+/**
+ * Compose projects EnvZilla started, for startup reconciliation.
+ */
+export async function listComposeProjects(): Promise<string[]> {
+  const { exitCode, stdout } = await runCommand('docker', [
+    'ps', '-a', '--filter', 'label=com.docker.compose.project', '--format', '{{.Label "com.docker.compose.project"}}'
+  ], { timeoutMs: 30_000 });
+  if (exitCode !== 0) return [];
+  return Array.from(new Set(stdout.trim().split('\n').filter(name => name.startsWith('envzilla-pr-'))));
+}
+
+/**
+ * `docker compose down -v` for a project, if it has any containers. Failures
+ * are only logged.
+ */
+export async function destroyComposeProject(project: string): Promise<boolean> {
+  try {
+    if ((await listComposeContainers(project)).length === 0) return true;
+    const { exitCode, stderr } = await compose(project, ['down', '-v', '--remove-orphans'], { timeoutMs: 2 * 60_000 });
+    if (exitCode !== 0) throw new Error(lastErrorLine(stderr));
+    logger.info({ project }, '🗑️ Removed compose project');
+    return true;
+  } catch (error: any) {
+    logger.warn({ project, error: error.message }, 'Failed to remove compose project');
+    return false;
+  }
+}
+
+// Namespace modes that share another container's or the host's namespace
+const SHARED_NAMESPACE = /^(host|container:|service:)/;
+
+function isInside(root: string, target: string): boolean {
+  const rel = path.relative(root, target);
+  return !rel.startsWith('..') && !path.isAbsolute(rel);
+}
+
+/**
+ * Whether `source` (relative to the checkout) stays inside it, following
+ * symlinks. Paths that don't exist yet are judged as written.
+ */
+async function staysInside(root: string, source: string): Promise<boolean> {
+  const resolved = path.resolve(root, source);
+  if (!isInside(root, resolved)) return false;
+  try {
+    return isInside(await fs.promises.realpath(root), await fs.promises.realpath(resolved));
+  } catch {
+    return true;
+  }
+}
+
+function isRemoteContext(context: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:\/\//i.test(context) || context.startsWith('git@');
+}
+
+/**
+ * Refuse settings that would give a preview control over the host, other
+ * containers or other previews' data. Files and directories it uses must
+ * come from the checkout.
+ */
+export async function checkComposeModel(model: Record<string, any>, repoPath: string): Promise<string[]> {
+  const issues: string[] = [];
+  const root = path.resolve(repoPath);
+
+  for (const [name, service] of Object.entries<Record<string, any>>(model.services ?? {})) {
+    if (service.privileged) issues.push(`${name}: privileged is not allowed`);
+    for (const mode of ['network_mode', 'pid', 'ipc', 'userns_mode', 'uts', 'cgroup']) {
+      if (typeof service[mode] === 'string' && SHARED_NAMESPACE.test(service[mode])) {
+        issues.push(`${name}: ${mode}: ${service[mode]} is not allowed`);
+      }
+    }
+    if (service.cap_add?.length) issues.push(`${name}: cap_add is not allowed`);
+    if (service.devices?.length) issues.push(`${name}: devices are not allowed`);
+    if (service.volumes_from?.length) issues.push(`${name}: volumes_from is not allowed`);
+    if (service.cgroup_parent) issues.push(`${name}: cgroup_parent is not allowed`);
+    for (const option of service.security_opt ?? []) {
+      if (!/^no-new-privileges(:true)?$/.test(String(option))) issues.push(`${name}: security_opt ${option} is not allowed`);
+    }
+    for (const volume of service.volumes ?? []) {
+      if (volume?.type === 'bind' && !(await staysInside(root, String(volume.source)))) {
+        issues.push(`${name}: bind mount of ${volume.source} is outside the repository`);
+      }
+    }
+    for (const envFile of service.env_file ?? []) {
+      const file = typeof envFile === 'string' ? envFile : envFile?.path;
+      if (file && !(await staysInside(root, String(file)))) issues.push(`${name}: env_file ${file} is outside the repository`);
+    }
+    const build = typeof service.build === 'string' ? { context: service.build } : service.build;
+    if (build) {
+      const contexts = [build.context ?? '.', ...Object.values(build.additional_contexts ?? {})].map(String);
+      for (const context of contexts) {
+        if (!isRemoteContext(context) && !context.startsWith('service:') && !(await staysInside(root, context))) {
+          issues.push(`${name}: build context ${context} is outside the repository`);
+        }
+      }
+      if (typeof build.dockerfile === 'string' && path.isAbsolute(build.dockerfile) && !(await staysInside(root, build.dockerfile))) {
+        issues.push(`${name}: dockerfile ${build.dockerfile} is outside the repository`);
+      }
+    }
+  }
+
+  // Named volumes can't point at host paths or other projects' volumes
+  for (const [name, volume] of Object.entries<Record<string, any> | null>(model.volumes ?? {})) {
+    if (!volume) continue;
+    if (volume.driver_opts && Object.keys(volume.driver_opts).length > 0) issues.push(`volume ${name}: driver_opts are not allowed`);
+    if (volume.driver && volume.driver !== 'local') issues.push(`volume ${name}: driver ${volume.driver} is not allowed`);
+    if (volume.external) issues.push(`volume ${name}: external volumes are not allowed`);
+  }
+  for (const section of ['secrets', 'configs']) {
+    for (const [name, entry] of Object.entries<Record<string, any> | null>(model[section] ?? {})) {
+      if (entry?.file && !(await staysInside(root, String(entry.file)))) issues.push(`${section} ${name}: ${entry.file} is outside the repository`);
+      if (entry?.external) issues.push(`${section} ${name}: external ${section} are not allowed`);
+    }
+  }
+  return issues;
+}
+
+/**
+ * Apply a container profile to a service in the rendered compose model.
+ * The user setting is only applied to the exposed service, whose image it
+ * was chosen for.
+ */
+function applyProfile(service: Record<string, any>, profile: ContainerProfile, exposed: boolean): void {
+  if (profile.cpus) service.cpus = profile.cpus;
+  if (profile.memory) service.mem_limit = profile.memory;
+  if (profile.pidsLimit) service.pids_limit = profile.pidsLimit;
+  if (profile.readOnly) {
+    service.read_only = true;
+    service.tmpfs = [...(service.tmpfs ?? []), '/tmp:rw,noexec,nosuid,size=64m'];
+  }
+  if (profile.capDrop.length > 0) service.cap_drop = profile.capDrop;
+  if (profile.noNewPrivileges) service.security_opt = [...(service.security_opt ?? []), 'no-new-privileges:true'];
+  if (profile.user && exposed) service.user = profile.user;
+}
+
+/**
+ * Render, start and inspect the compose project for a preview. The returned
+ * `containerId` is the exposed service's container.
+ */
+export async function buildComposePreview(
+  repoPath: string,
+  key: DeploymentKey,
+  config: ComposeConfig,
+  options: ComposeBuildOptions
+): Promise<BuildResult> {
+  const project = composeProjectFor(key);
+  const composeFile = path.resolve(repoPath, config.file);
+  const relative = path.relative(path.resolve(repoPath), composeFile);
+  if (relative.startsWith('..') || path.isAbsolute(relative) || !fs.existsSync(composeFile)) {
+    throw new BuildStepError('config', `Compose file not found at: ${config.file}`);
+  }
+
+  // Whether a previous build's project is running; a failed first build
+  // removes what it started, a failed redeploy leaves the old one alone
+  const existed = (await listComposeContainers(project).catch(() => [])).length > 0;
+  let step: BuildStep = 'config';
+  let tmpDir: string | undefined;
+
+  try {
+    const rendered = await compose(project, ['-f', composeFile, '--project-directory', repoPath, 'config', '--format', 'json'], {
+      cwd: repoPath,
+      timeoutMs: 60_000,
+      signal: options.signal,
+    });
+    if (rendered.exitCode !== 0) throw new Error(`docker compose config failed: ${lastErrorLine(rendered.stderr)}`);
+    const model = JSON.parse(rendered.stdout);
+    const services: Record<string, any> = model.services ?? {};
+
+    if (!services[config.service]) {
+      throw new Error(`Service "${config.service}" is not defined in ${config.file} (found: ${Object.keys(services).join(', ') || 'none'})`);
+    }
+    const issues = await checkComposeModel(model, repoPath);
+    if (issues.length > 0) throw new Error(`Unsupported settings in ${config.file}: ${issues.join('; ')}`);
+
+    // Fixed host ports would collide between previews; only the exposed
+    // service gets one, chosen by us
+    for (const service of Object.values(services)) delete service.ports;
+    const hostPort = await findFreePort();
+    const exposed = services[config.service];
+    exposed.ports = [`127.0.0.1:${hostPort}:${options.containerPort}`];
+
+    const { repoFullName, prNumber } = parseDeploymentKey(key);
+    exposed.labels = {
+      ...exposed.labels,
+      ...options.labels,
+      'envzilla.repo': repoFullName,
+      'envzilla.pr': String(prNumber),
+      'envzilla.compose-project': project,
+    };
+    exposed.environment = { ...exposed.environment, ...options.env, ...options.secrets };
+    const profile = resolveContainerProfile(options.profile);
+    for (const [name, service] of Object.entries(services)) applyProfile(service, profile, name === config.service);
+
+    // The rendered file can hold secrets: keep it private and short-lived
+    tmpDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'envzilla-compose-'));
+    const renderedFile = path.join(tmpDir, 'compose.json');
+    await fs.promises.writeFile(renderedFile, JSON.stringify(model), { encoding: 'utf8', mode: 0o600 });
+    throwIfCancelled(options.signal);
+
+    step = 'build';
+    logger.info({ deployment: key, project, service: config.service, hostPort }, '🐙 Starting compose project...');
+    const up = await compose(project, ['-f', renderedFile, '--project-directory', repoPath, 'up', '-d', '--build', '--remove-orphans'], {
+      cwd: repoPath,
+      signal: options.signal,
+      onOutput: options.onOutput,
+    });
+    if (up.exitCode !== 0) throw new Error(`docker compose up failed: ${lastErrorLine(up.stderr)}`);
+
+    step = 'run';
+    const containers = await listComposeContainers(project);
+    const container = containers.find(c => c.service === config.service);
+    if (!container) throw new Error(`No container is running for service "${config.service}"`);
+
+    const image = await runCommand('docker', ['inspect', '--format', '{{.Config.Image}}', container.containerId], { timeoutMs: 30_000 });
+    logger.info({ deployment: key, project, containers: containers.length, hostPort }, '🚀 Compose project started successfully');
+
+    return {
+      containerId: container.containerId,
+      hostPort,
+      imageName: image.stdout.trim() || exposed.image || config.service,
+      profile,
+      composeProject: project,
+      containers,
+    };
+  } catch (error) {
+    if (!existed) await destroyComposeProject(project);
+    throw asStepError(step, error);
+  } finally {
+    if (tmpDir) await fs.promises.rm(tmpDir, { recursive: true, force: true }).catch(() => undefined);
+  }
+}
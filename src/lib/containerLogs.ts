@@ -0,0 +1,90 @@
+import { spawn } from 'child_process';
+import logger from '../utils/logger.js';
+
+export interface ContainerLogOptions {
+  // Number of lines from the end of the logs, or 'all'
+  tail?: number | 'all';
+  // Unix timestamp, RFC 3339 date or relative duration such as `10m`
+  since?: string;
+  follow?: boolean;
+  timestamps?: boolean;
+  // Aborting stops `docker logs` (e.g. when the client disconnects)
+  signal?: AbortSignal;
+}
+
+export interface ContainerLogLine {
+  stream: 'stdout' | 'stderr';
+  line: string;
+}
+
+// Without follow, `docker logs` should return promptly
+const SNAPSHOT_TIMEOUT_MS = 30_000;
+
+/**
+ * Check a `since` value against the forms `docker logs --since` accepts.
+ */
+export function isValidLogSince(since: string): boolean {
+  return /^\d+(\.\d+)?$/.test(since)
+    || /^(\d+(\.\d+)?(ns|us|ms|s|m|h))+$/.test(since)
+    || (/^\d{4}-\d{2}-\d{2}/.test(since) && !Number.isNaN(Date.parse(since)));
+}
+
+/**
+ * Run `docker logs` for a container and hand its output to `onLine` one line
+ * at a time, so callers can redact whole lines. Resolves with the exit code
+ * once the command ends (with `follow`, when the container stops or the
+ * signal is aborted).
+ */
+export function streamContainerLogs(
+  containerId: string,
+  options: ContainerLogOptions,
+  onLine: (line: ContainerLogLine) => void
+): Promise<number> {
+  const args = ['logs'];
+  if (options.tail !== undefined) args.push('--tail', String(options.tail));
+  if (options.since) args.push('--since', options.since);
+  if (options.timestamps) args.push('--timestamps');
+  if (options.follow) args.push('--follow');
+  args.push(containerId);
+
+  return new Promise((resolve, reject) => {
+    if (options.signal?.aborted) return resolve(0);
+
+    const child = spawn('docker', args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    const partial = { stdout: '', stderr: '' };
+
+    const onData = (stream: 'stdout' | 'stderr') => (text: string) => {
+      const lines = (partial[stream] + text).split('\n');
+      partial[stream] = lines.pop() ?? '';
+      for (const line of lines) onLine({ stream, line });
+    };
+    // Decoded by the streams so characters split across chunks stay intact
+    child.stdout?.setEncoding('utf8').on('data', onData('stdout'));
+    child.stderr?.setEncoding('utf8').on('data', onData('stderr'));
+
+    const stop = () => { try { child.kill(); } catch {} };
+    options.signal?.addEventListener('abort', stop, { once: true });
+    const timer = options.follow ? undefined : setTimeout(() => {
+      logger.warn({ containerId: containerId.substring(0, 12) }, 'docker logs timed out');
+      stop();
+    }, SNAPSHOT_TIMEOUT_MS);
+
+    const finish = () => {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', stop);
+    };
+
+    child.on('error', err => {
+      finish();
+      reject(err);
+    });
+
+    child.on('close', code => {
+      finish();
+      for (const stream of ['stdout', 'stderr'] as const) {
+        if (partial[stream]) onLine({ stream, line: partial[stream] });
+      }
+      resolve(code ?? 0);
+    });
+  });
+}
@@ -0,0 +1,134 @@
+/**
+ * Resource limits and hardening options preview containers run with.
+ */
+
+export interface ContainerProfile {
+  // docker --cpus; unset means no limit
+  cpus?: number;
+  // docker --memory, e.g. "512m"; unset means no limit
+  memory?: string;
+  pidsLimit?: number;
+  // Mount the root filesystem read-only (with a writable tmpfs on /tmp)
+  readOnly: boolean;
+  // Capabilities to drop, e.g. ["ALL"] or ["NET_RAW"]
+  capDrop: string[];
+  noNewPrivileges: boolean;
+  // User (and optionally group) to run as, e.g. "1000:1000"
+  user?: string;
+}
+
+/**
+ * Per-repository overrides from `.envzilla.yml` (`run.resources` and
+ * `run.security`). Unset fields keep the global value.
+ */
+export interface ContainerProfileOverrides {
+  cpus?: number;
+  memory?: string;
+  pidsLimit?: number;
+  readOnly?: boolean;
+  capDrop?: string[];
+  noNewPrivileges?: boolean;
+  user?: string;
+}
+
+// Same syntax docker accepts for --memory: a number with an optional b/k/m/g unit
+export const MEMORY_PATTERN = /^\d+(\.\d+)?[bkmg]?$/i;
+// "user", "uid" or either followed by ":group"
+export const USER_PATTERN = /^[A-Za-z0-9_][A-Za-z0-9_.-]*(:[A-Za-z0-9_][A-Za-z0-9_.-]*)?$/;
+const CAPABILITY_PATTERN = /^[A-Z][A-Z0-9_]*$/;
+
+/**
+ * Normalise a capability name the way docker spells it ("cap_net_raw" →
+ * "NET_RAW"), or undefined if it isn't one.
+ */
+export function normalizeCapability(name: string): string | undefined {
+  const cap = name.trim().toUpperCase().replace(/^CAP_/, '');
+  return CAPABILITY_PATTERN.test(cap) ? cap : undefined;
+}
+
+function positiveNumber(value: string | undefined): number | undefined {
+  const n = Number(value);
+  return value && n > 0 ? n : undefined;
+}
+
+function optionalString(value: string | undefined, fallback: string, pattern: RegExp): string | undefined {
+  const v = (value ?? fallback).trim();
+  return v && pattern.test(v) ? v : undefined;
+}
+
+/**
+ * The global profile from the environment (see the README's Configuration
+ * table). Read on each call so values from .env apply. Invalid values fall
+ * back to the default rather than failing every build.
+ */
+export function globalContainerProfile(): ContainerProfile {
+  const env = process.env;
+  return {
+    cpus: positiveNumber(env.CONTAINER_CPUS ?? '1'),
+    memory: optionalString(env.CONTAINER_MEMORY, '1g', MEMORY_PATTERN)?.toLowerCase(),
+    pidsLimit: positiveNumber(env.CONTAINER_PIDS_LIMIT ?? '512'),
+    readOnly: env.CONTAINER_READ_ONLY === 'true',
+    capDrop: (env.CONTAINER_CAP_DROP ?? '')
+      .split(',')
+      .map(normalizeCapability)
+      .filter((cap): cap is string => Boolean(cap)),
+    noNewPrivileges: env.CONTAINER_NO_NEW_PRIVILEGES !== 'false',
+    user: optionalString(env.CONTAINER_USER, '', USER_PATTERN),
+  };
+}
+
+/**
+ * The profile for sandboxed previews (see FORK_PR_POLICY). Limits come from
+ * SANDBOX_*, all capabilities are dropped and privilege escalation is off;
+ * the global read-only and user settings still apply.
+ */
+export function sandboxContainerProfile(): ContainerProfile {
+  const env = process.env;
+  const global = globalContainerProfile();
+  return {
+    cpus: positiveNumber(env.SANDBOX_CPUS || '0.5'),
+    memory: optionalString(env.SANDBOX_MEMORY, '512m', MEMORY_PATTERN)?.toLowerCase() ?? '512m',
+    pidsLimit: positiveNumber(env.SANDBOX_PIDS_LIMIT || '256'),
+    readOnly: global.readOnly,
+    capDrop: ['ALL'],
+    noNewPrivileges: true,
+    user: global.user,
+  };
+}
+
+/**
+ * The profile a preview runs with: the global one with the repository's
+ * overrides on top. Sandboxed previews ignore the repository's settings.
+ */
+export function resolveContainerProfile(overrides: ContainerProfileOverrides = {}, sandbox = false): ContainerProfile {
+  if (sandbox) return sandboxContainerProfile();
+
+  const global = globalContainerProfile();
+  return {
+    cpus: overrides.cpus ?? global.cpus,
+    memory: overrides.memory ?? global.memory,
+    pidsLimit: overrides.pidsLimit ?? global.pidsLimit,
+    readOnly: overrides.readOnly ?? global.readOnly,
+    capDrop: overrides.capDrop ?? global.capDrop,
+    noNewPrivileges: overrides.noNewPrivileges ?? global.noNewPrivileges,
+    user: overrides.user ?? global.user,
+  };
+}
+
+/**
+ * `docker run` flags applying a profile.
+ */
+export function containerProfileArgs(profile: ContainerProfile): string[] {
+  const args: string[] = [];
+  if (profile.cpus) args.push('--cpus', String(profile.cpus));
+  if (profile.memory) args.push('--memory', profile.memory);
+  if (profile.pidsLimit) args.push('--pids-limit', String(profile.pidsLimit));
+  if (profile.readOnly) {
+    // Most apps still need somewhere to write temporary files
+    args.push('--read-only', '--tmpfs', '/tmp:rw,noexec,nosuid,size=64m');
+  }
+  for (const cap of profile.capDrop) args.push('--cap-drop', cap);
+  if (profile.noNewPrivileges) args.push('--security-opt', 'no-new-privileges');
+  if (profile.user) args.push('--user', profile.user);
+  return args;
+}
@@ -0,0 +1,61 @@
+import crypto from 'crypto';
+
+/**
+ * Identifies one preview: `owner/repo#<pr>`. PR numbers alone are only unique
+ * within a repository, so everything tracked per preview is keyed by this.
+ */
+export type DeploymentKey = string;
+
+export interface ParsedDeploymentKey {
+  repoFullName: string;
+  owner: string;
+  repo: string;
+  prNumber: number;
+}
+
+const KEY_PATTERN = /^([^/\s#]+)\/([^/\s#]+)#(\d+)$/;
+
+export function makeDeploymentKey(repoFullName: string, prNumber: number): DeploymentKey {
+  const key = `${repoFullName.trim().toLowerCase()}#${prNumber}`;
+  if (!KEY_PATTERN.test(key)) {
+    throw new Error(`Invalid deployment key components: repo="${repoFullName}" pr=${prNumber}`);
+  }
+  return key;
+}
+
+export function isDeploymentKey(value: unknown): value is DeploymentKey {
+  return typeof value === 'string' && KEY_PATTERN.test(value);
+}
+
+export function parseDeploymentKey(key: DeploymentKey): ParsedDeploymentKey {
+  const m = key.match(KEY_PATTERN);
+  if (!m) throw new Error(`Invalid deployment key: ${key}`);
+  return { repoFullName: `${m[1]}/${m[2]}`, owner: m[1], repo: m[2], prNumber: Number(m[3]) };
+}
+
+/**
+ * Docker-safe identifier for a deployment, e.g. `acme-web-3f9a1c-12`.
+ *
+ * Image repositories must be lowercase `[a-z0-9]` separated by `.`, `_` or `-`,
+ * and sanitizing is lossy (`a-b/c` and `a/b-c` collapse to the same slug), so a
+ * short hash of the repository name keeps the result unique.
+ */
+export function dockerSafeId(key: DeploymentKey): string {
+  const { owner, repo, repoFullName, prNumber } = parseDeploymentKey(key);
+  const sanitize = (s: string) => s.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  const slug = `${sanitize(owner)}-${sanitize(repo)}`.slice(0, 40).replace(/-+$/, '');
+  const hash = crypto.createHash('sha1').update(repoFullName).digest('hex').slice(0, 6);
+  return `${slug}-${hash}-${prNumber}`;
+}
+
+/**
+ * Container name for a deployment. Each build gets its own `revision` suffix
+ * so a new container can run next to the previous one during a redeploy.
+ */
+export function containerNameFor(key: DeploymentKey, revision?: string): string {
+  return revision ? `preview-${dockerSafeId(key)}-${revision}` : `preview-${dockerSafeId(key)}`;
+}
+
+export function imageRepositoryFor(key: DeploymentKey): string {
+  return `preview-pr-${dockerSafeId(key)}`;
+}
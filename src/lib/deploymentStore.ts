@@ -0,0 +1,208 @@
+import fs from 'fs';
+import path from 'path';
+import logger from '../utils/logger.js';
+import { DeploymentInfo } from '../types/webhook.js';
+import { DeploymentKey, makeDeploymentKey } from './deploymentKey.js';
+
+/**
+ * Storage backend for deployment records. All methods return copies so callers
+ * can never mutate the stored state without going through `set`.
+ */
+export interface DeploymentStore {
+  get(key: DeploymentKey): Promise<DeploymentInfo | undefined>;
+  set(key: DeploymentKey, info: DeploymentInfo): Promise<void>;
+  delete(key: DeploymentKey): Promise<boolean>;
+  list(): Promise<Map<DeploymentKey, DeploymentInfo>>;
+  /**
+   * Atomically replace the record for `key` only if it still equals `expected`
+   * (pass `undefined` to require that no record exists). Passing `undefined`
+   * as `next` deletes the record. Resolves to false when the record changed.
+   */
+  compareAndSet(key: DeploymentKey, expected: DeploymentInfo | undefined, next: DeploymentInfo | undefined): Promise<boolean>;
+}
+
+type JournalEntry =
+  | { op: 'set'; key: DeploymentKey; value: DeploymentInfo }
+  | { op: 'delete'; key: DeploymentKey };
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Serialize with sorted keys so records compare equal regardless of the order
+ * their properties were assigned in.
+ */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, v) => {
+    if (v && typeof v === 'object' && !Array.isArray(v)) {
+      return Object.keys(v).sort().reduce((acc: Record<string, unknown>, k) => {
+        acc[k] = v[k];
+        return acc;
+      }, {});
+    }
+    return v;
+  });
+}
+
+function sameRecord(a: DeploymentInfo | undefined, b: DeploymentInfo | undefined): boolean {
+  if (a === undefined || b === undefined) return a === b;
+  return stableStringify(a) === stableStringify(b);
+}
+
+/**
+ * Non-persistent store, used for tests and when DEPLOYMENT_STORE=memory.
+ */
+export class InMemoryDeploymentStore implements DeploymentStore {
+  protected records = new Map<DeploymentKey, DeploymentInfo>();
+
+  async get(key: DeploymentKey): Promise<DeploymentInfo | undefined> {
+    return clone(this.records.get(key));
+  }
+
+  async set(key: DeploymentKey, info: DeploymentInfo): Promise<void> {
+    this.records.set(key, clone(info));
+  }
+
+  async delete(key: DeploymentKey): Promise<boolean> {
+    return this.records.delete(key);
+  }
+
+  async list(): Promise<Map<DeploymentKey, DeploymentInfo>> {
+    return new Map(Array.from(this.records.entries()).map(([k, v]) => [k, clone(v)]));
+  }
+
+  async compareAndSet(key: DeploymentKey, expected: DeploymentInfo | undefined, next: DeploymentInfo | undefined): Promise<boolean> {
+    if (!sameRecord(this.records.get(key), expected)) return false;
+    if (next === undefined) this.records.delete(key);
+    else this.records.set(key, clone(next));
+    return true;
+  }
+}
+
+/**
+ * File-backed store using an append-only JSON journal (one entry per line).
+ * The journal is replayed on startup and compacted into a snapshot of `set`
+ * entries once it grows past `compactThreshold` lines. A torn last line from a
+ * crash mid-write is skipped rather than failing the whole load.
+ */
+export class JsonFileDeploymentStore extends InMemoryDeploymentStore {
+  private writeChain: Promise<void> = Promise.resolve();
+  private journalLength = 0;
+
+  constructor(private readonly filePath: string, private readonly compactThreshold = 500) {
+    super();
+    this.load();
+  }
+
+  private load() {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    if (!fs.existsSync(this.filePath)) return;
+
+    // Journals written before deployments were keyed by repository used bare
+    // PR numbers; map those onto composite keys where the record allows it.
+    const legacyKeys = new Map<number, DeploymentKey>();
+    const resolveKey = (entry: { key: unknown; value?: DeploymentInfo }): DeploymentKey | undefined => {
+      if (typeof entry.key === 'string') return entry.key;
+      if (typeof entry.key !== 'number') return undefined;
+      if (entry.value?.repoFullName) legacyKeys.set(entry.key, makeDeploymentKey(entry.value.repoFullName, entry.key));
+      return legacyKeys.get(entry.key);
+    };
+
+    const lines = fs.readFileSync(this.filePath, 'utf8').split('\n').filter(Boolean);
+    for (const [index, line] of lines.entries()) {
+      try {
+        const entry = JSON.parse(line) as JournalEntry;
+        const key = resolveKey(entry);
+        if (!key) {
+          logger.warn({ filePath: this.filePath, line: index + 1 }, 'Dropping deployment journal entry without a repository');
+          continue;
+        }
+        if (entry.op === 'set') this.records.set(key, entry.value);
+        else if (entry.op === 'delete') this.records.delete(key);
+      } catch {
+        logger.warn({ filePath: this.filePath, line: index + 1 }, 'Skipping unreadable deployment journal entry');
+      }
+    }
+    this.journalLength = lines.length;
+    logger.info({ filePath: this.filePath, deployments: this.records.size }, '📂 Loaded deployment store');
+  }
+
+  /**
+   * Queue a journal write. Writes are serialized so entries land in the same
+   * order the in-memory map was mutated.
+   */
+  private persist(entry: JournalEntry): Promise<void> {
+    const write = async () => {
+      await fs.promises.appendFile(this.filePath, JSON.stringify(entry) + '\n', 'utf8');
+      this.journalLength++;
+      if (this.journalLength > this.compactThreshold) await this.compact();
+    };
+    this.writeChain = this.writeChain.then(write, write);
+    return this.writeChain.catch((err: any) => {
+      logger.error({ filePath: this.filePath, err: err?.message }, 'Failed to persist deployment store entry');
+    });
+  }
+
+  private async compact() {
+    const tmpPath = `${this.filePath}.tmp`;
+    const snapshot = Array.from(this.records.entries())
+      .map(([key, value]) => JSON.stringify({ op: 'set', key, value }))
+      .join('\n');
+    await fs.promises.writeFile(tmpPath, snapshot ? snapshot + '\n' : '', 'utf8');
+    await fs.promises.rename(tmpPath, this.filePath);
+    this.journalLength = this.records.size;
+  }
+
+  async set(key: DeploymentKey, info: DeploymentInfo): Promise<void> {
+    await super.set(key, info);
+    await this.persist({ op: 'set', key, value: clone(info) });
+  }
+
+  async delete(key: DeploymentKey): Promise<boolean> {
+    const existed = await super.delete(key);
+    if (existed) await this.persist({ op: 'delete', key });
+    return existed;
+  }
+
+  async compareAndSet(key: DeploymentKey, expected: DeploymentInfo | undefined, next: DeploymentInfo | undefined): Promise<boolean> {
+    const swapped = await super.compareAndSet(key, expected, next);
+    if (swapped) {
+      await this.persist(next === undefined ? { op: 'delete', key } : { op: 'set', key, value: clone(next) });
+    }
+    return swapped;
+  }
+}
+
+/**
+ * Create the store selected by DEPLOYMENT_STORE (`file` or `memory`).
+ */
+export function createDeploymentStore(): DeploymentStore {
+  const kind = (process.env.DEPLOYMENT_STORE || 'file').toLowerCase();
+  if (kind === 'memory') {
+    logger.warn('Using in-memory deployment store — deployments will be forgotten on restart');
+    return new InMemoryDeploymentStore();
+  }
+  if (kind !== 'file') {
+    throw new Error(`Unknown DEPLOYMENT_STORE "${kind}", expected "file" or "memory"`);
+  }
+  const filePath = path.resolve(process.env.DEPLOYMENT_STORE_PATH || path.join(process.cwd(), 'data', 'deployments.jsonl'));
+  return new JsonFileDeploymentStore(filePath);
+}
+
+let store: DeploymentStore | undefined;
+
+/**
+ * Shared store instance, created on first use.
+ */
+export function getDeploymentStore(): DeploymentStore {
+  if (!store) store = createDeploymentStore();
+  return store;
+}
+
+/**
+ * Replace the shared store (for tests or alternative backends).
+ */
+export function setDeploymentStore(next: DeploymentStore): void {
+  store = next;
+}
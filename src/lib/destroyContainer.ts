@@ -1,5 +1,7 @@
 import { spawn } from 'child_process';
 import logger from '../utils/logger.js';
+import { DeploymentKey, parseDeploymentKey, imageRepositoryFor } from './deploymentKey.js';
+import { SANDBOX_NETWORK } from './buildContainer.js';
 
 /**
  * Simple helper to run a command and collect stdout/stderr without using a shell.
@@ -53,9 +55,12 @@ export interface DestroyResult {
  */
 export async function destroyContainer(
     containerId: string, 
-    prNumber?: number,
+    key?: DeploymentKey,
     options: {
         destroyImage?: boolean;
+        // Only remove this container's own image, not the deployment's other
+        // images (used when retiring the previous container after a redeploy)
+        keepDeploymentImages?: boolean;
         containerName?: string;
     } = {}
 ): Promise<DestroyResult> {
@@ -76,12 +81,13 @@ export async function destroyContainer(
     if (!isValidId) {
         const error = `Invalid container id provided: ${containerId}`;
         result.errors.push(error);
-        logger.error({ containerId, prNumber }, error);
+        logger.error({ containerId, deployment: key }, error);
         return result;
     }
 
-    logger.info({ containerId: containerId.substring(0, 12), prNumber }, '🛑 Starting container destroy process');
+    logger.info({ containerId: containerId.substring(0, 12), deployment: key }, '🛑 Starting container destroy process');
 
+    let alreadyRemoved = false;
     try {
         // Step 1: Stop the container gracefully
         const stopResult = await runCommand('docker', ['stop', containerId], 30_000);
@@ -106,6 +112,11 @@ export async function destroyContainer(
             if (forceRemoveResult.code === 0) {
                 result.containerDestroyed = true;
                 logger.info({ containerId: containerId.substring(0, 12) }, '✅ Container removed (forced)');
+            } else if (/no such container/i.test(forceRemoveResult.stderr || '')) {
+                // Already gone (e.g. retired by a redeploy): nothing to remove
+                alreadyRemoved = true;
+                result.errors.length = 0;
+                logger.info({ containerId: containerId.substring(0, 12) }, 'Container was already removed');
             } else {
                 const error = `Failed to remove container: ${removeResult.stderr?.trim()} | Forced: ${forceRemoveResult.stderr?.trim()}`;
                 result.errors.push(error);
@@ -115,7 +126,7 @@ export async function destroyContainer(
 
         // Step 3: Optionally destroy the associated image
         if (options.destroyImage && result.containerDestroyed) {
-            await destroyAssociatedImages(containerId, prNumber, result);
+            await destroyAssociatedImages(containerId, options.keepDeploymentImages ? undefined : key, result);
         }
 
         // Step 4: Clean up by container name if provided
@@ -123,26 +134,26 @@ export async function destroyContainer(
             await cleanupByContainerName(options.containerName, result);
         }
 
-        result.success = result.containerDestroyed;
+        result.success = result.containerDestroyed || alreadyRemoved;
 
     } catch (error: any) {
         const errorMsg = `Error during container destroy: ${error.message}`;
         result.errors.push(errorMsg);
-        logger.error({ containerId: containerId.substring(0, 12), prNumber, error }, errorMsg);
+        logger.error({ containerId: containerId.substring(0, 12), deployment: key, error }, errorMsg);
     }
 
     // Log final result
     if (result.success) {
         logger.info({ 
             containerId: containerId.substring(0, 12), 
-            prNumber,
+            deployment: key,
             containerDestroyed: result.containerDestroyed,
             imageDestroyed: result.imageDestroyed
         }, '✅ Container destroy completed successfully');
     } else {
         logger.error({ 
             containerId: containerId.substring(0, 12), 
-            prNumber,
+            deployment: key,
             errors: result.errors
         }, '❌ Container destroy failed');
     }
@@ -153,7 +164,7 @@ export async function destroyContainer(
 /**
  * Destroy images associated with a PR
  */
-async function destroyAssociatedImages(containerId: string, prNumber: number | undefined, result: DestroyResult): Promise<void> {
+async function destroyAssociatedImages(containerId: string, key: DeploymentKey | undefined, result: DestroyResult): Promise<void> {
     try {
         // Get the image ID that was used by this container
         const inspectResult = await runCommand('docker', ['inspect', '--format={{.Image}}', containerId], 10_000);
@@ -164,7 +175,7 @@ async function destroyAssociatedImages(containerId: string, prNumber: number | u
                 const removeImageResult = await runCommand('docker', ['rmi', imageId], 30_000);
                 if (removeImageResult.code === 0) {
                     result.imageDestroyed = true;
-                    logger.info({ imageId: imageId.substring(0, 12), prNumber }, '✅ Associated image removed');
+                    logger.info({ imageId: imageId.substring(0, 12), deployment: key }, '✅ Associated image removed');
                 } else {
                     const error = `Failed to remove image ${imageId}: ${removeImageResult.stderr?.trim()}`;
                     result.errors.push(error);
@@ -174,17 +185,17 @@ async function destroyAssociatedImages(containerId: string, prNumber: number | u
         }
 
         // Also try to remove PR-specific images by pattern
-        if (prNumber) {
-            const prImagePattern = `preview-pr-${prNumber}`;
-            const listResult = await runCommand('docker', ['images', '--format={{.Repository}}:{{.Tag}}', '--filter=reference=' + prImagePattern + '*'], 10_000);
+        if (key) {
+            const prImageRepository = imageRepositoryFor(key);
+            const listResult = await runCommand('docker', ['images', '--format={{.Repository}}:{{.Tag}}', '--filter=reference=' + prImageRepository + ':*'], 10_000);
             
             if (listResult.code === 0 && listResult.stdout.trim()) {
-                const images = listResult.stdout.trim().split('\n').filter(img => img.includes(prImagePattern));
+                const images = listResult.stdout.trim().split('\n').filter(img => img.startsWith(prImageRepository + ':'));
                 
                 for (const image of images) {
                     const removeResult = await runCommand('docker', ['rmi', image], 30_000);
                     if (removeResult.code === 0) {
-                        logger.info({ image, prNumber }, '✅ PR-specific image removed');
+                        logger.info({ image, deployment: key }, '✅ PR-specific image removed');
                     } else {
                         logger.warn({ image, error: removeResult.stderr?.trim() }, '⚠️ Failed to remove PR-specific image');
                     }
@@ -205,7 +216,7 @@ async function destroyAssociatedImages(containerId: string, prNumber: number | u
 async function cleanupByContainerName(containerName: string, result: DestroyResult): Promise<void> {
     try {
         // Try to find and remove containers with the given name
-        const psResult = await runCommand('docker', ['ps', '-a', '--filter=name=' + containerName, '--format={{.ID}}'], 10_000);
+        const psResult = await runCommand('docker', ['ps', '-a', '--filter=name=^/' + containerName + '$', '--format={{.ID}}'], 10_000);
         
         if (psResult.code === 0 && psResult.stdout.trim()) {
             const containerIds = psResult.stdout.trim().split('\n');
@@ -225,36 +236,50 @@ async function cleanupByContainerName(containerName: string, result: DestroyResu
 }
 
 /**
- * Find and destroy containers by PR number
+ * IDs of all containers labelled as belonging to a deployment. During a
+ * redeploy this includes both the previous and the new container.
  */
-export async function destroyByPRNumber(prNumber: number): Promise<DestroyResult[]> {
+export async function listDeploymentContainers(key: DeploymentKey): Promise<string[]> {
+    const { repoFullName, prNumber } = parseDeploymentKey(key);
+    const result = await runCommand('docker', [
+        'ps', '-a', '--no-trunc',
+        '--filter=label=envzilla.repo=' + repoFullName,
+        '--filter=label=envzilla.pr=' + prNumber,
+        '--format={{.ID}}'
+    ], 10_000);
+
+    if (result.code !== 0) {
+        throw new Error(`Failed to list containers: ${result.stderr?.trim() || 'Unknown error'}`);
+    }
+    return result.stdout.trim().split('\n').filter(Boolean);
+}
+
+/**
+ * Find and destroy containers for a deployment (repository + PR)
+ */
+export async function destroyByDeploymentKey(key: DeploymentKey): Promise<DestroyResult[]> {
     const results: DestroyResult[] = [];
     
     try {
-        logger.info({ prNumber }, '🔍 Finding containers for PR...');
+        logger.info({ deployment: key }, '🔍 Finding containers for PR...');
         
-        // Find containers with the naming pattern preview-{prNumber}
-        const containerName = `preview-${prNumber}`;
-        const psResult = await runCommand('docker', ['ps', '-a', '--filter=name=' + containerName, '--format={{.ID}}'], 10_000);
+        const containerIds = await listDeploymentContainers(key);
         
-        if (psResult.code === 0 && psResult.stdout.trim()) {
-            const containerIds = psResult.stdout.trim().split('\n').filter(id => id);
-            
-            logger.info({ prNumber, containerCount: containerIds.length }, '📦 Found containers to destroy');
+        if (containerIds.length > 0) {
+            logger.info({ deployment: key, containerCount: containerIds.length }, '📦 Found containers to destroy');
             
             for (const containerId of containerIds) {
-                const result = await destroyContainer(containerId, prNumber, {
-                    destroyImage: true,
-                    containerName
+                const result = await destroyContainer(containerId, key, {
+                    destroyImage: true
                 });
                 results.push(result);
             }
         } else {
-            logger.info({ prNumber }, '📭 No containers found for PR');
+            logger.info({ deployment: key }, '📭 No containers found for PR');
         }
         
     } catch (error: any) {
-        logger.error({ prNumber, error }, '❌ Error finding containers by PR number');
+        logger.error({ deployment: key, error }, '❌ Error finding containers for deployment');
         results.push({
             success: false,
             containerId: '',
@@ -268,13 +293,15 @@ export async function destroyByPRNumber(prNumber: number): Promise<DestroyResult
 }
 
 /**
- * List all preview containers
+ * List all preview containers, including those of compose previews
+ * (`envzilla-pr-*` projects)
  */
 export async function listPreviewContainers(): Promise<Array<{id: string, name: string, status: string, image: string}>> {
     try {
         const result = await runCommand('docker', [
             'ps', '-a', 
             '--filter=name=preview-',
+            '--filter=name=envzilla-pr-',
             '--format={{.ID}}\t{{.Names}}\t{{.Status}}\t{{.Image}}'
         ], 10_000);
         
@@ -291,3 +318,109 @@ export async function listPreviewContainers(): Promise<Array<{id: string, name:
         return [];
     }
 }
+
+export interface PreviewContainerDetails {
+    id: string;
+    name: string;
+    image: string;
+    running: boolean;
+    hostPort?: number;
+    // Set for sandboxed containers, which publish no ports: the app is at
+    // this address on its network and `hostPort` is the container port
+    targetHost?: string;
+    labels: Record<string, string>;
+    // `NAME=value` pairs the container was started with
+    env: string[];
+}
+
+/**
+ * Inspect a preview container and recover its published host port and labels
+ */
+export async function inspectPreviewContainer(containerId: string): Promise<PreviewContainerDetails | undefined> {
+    try {
+        const result = await runCommand('docker', ['inspect', containerId], 10_000);
+        if (result.code !== 0) return undefined;
+
+        const [info] = JSON.parse(result.stdout);
+        if (!info) return undefined;
+
+        // Ports look like { "3000/tcp": [{ "HostIp": "0.0.0.0", "HostPort": "5123" }] }
+        const ports: Record<string, Array<{ HostPort?: string }> | null> = info.NetworkSettings?.Ports || info.HostConfig?.PortBindings || {};
+        let hostPort: number | undefined;
+        for (const bindings of Object.values(ports)) {
+            const port = Number(bindings?.[0]?.HostPort);
+            if (Number.isInteger(port) && port > 0) {
+                hostPort = port;
+                break;
+            }
+        }
+
+        const labels: Record<string, string> = info.Config?.Labels || {};
+        let targetHost: string | undefined;
+        if (labels['envzilla.sandbox'] === 'true') {
+            const network = labels['envzilla.network'] || SANDBOX_NETWORK;
+            targetHost = info.NetworkSettings?.Networks?.[network]?.IPAddress || undefined;
+            hostPort = targetHost ? Number(labels['envzilla.port']) || undefined : undefined;
+        }
+
+        return {
+            id: info.Id,
+            name: String(info.Name || '').replace(/^\//, ''),
+            image: info.Config?.Image || info.Image,
+            running: Boolean(info.State?.Running),
+            hostPort,
+            targetHost,
+            labels,
+            env: info.Config?.Env || []
+        };
+    } catch (error) {
+        logger.error({ containerId, error }, 'Failed to inspect preview container');
+        return undefined;
+    }
+}
+
+/**
+ * Start a stopped container
+ */
+export async function startContainer(containerId: string): Promise<boolean> {
+    const result = await runCommand('docker', ['start', containerId], 30_000);
+    if (result.code !== 0) {
+        logger.warn({ containerId: containerId.substring(0, 12), error: result.stderr?.trim() }, '⚠️ Failed to start container');
+    }
+    return result.code === 0;
+}
+
+/**
+ * List all preview images (repository:tag references)
+ */
+export async function listPreviewImages(): Promise<string[]> {
+    try {
+        const result = await runCommand('docker', [
+            'images',
+            '--filter=reference=preview-pr-*',
+            '--format={{.Repository}}:{{.Tag}}'
+        ], 10_000);
+
+        if (result.code === 0 && result.stdout.trim()) {
+            return result.stdout.trim().split('\n').filter(Boolean);
+        }
+
+        return [];
+    } catch (error) {
+        logger.error({ error }, 'Failed to list preview images');
+        return [];
+    }
+}
+
+/**
+ * Remove an image by reference
+ */
+export async function removeImage(image: string): Promise<boolean> {
+    const result = await runCommand('docker', ['rmi', image], 30_000);
+    if (result.code === 0) {
+        logger.info({ image }, '✅ Image removed');
+    } else {
+        logger.warn({ image, error: result.stderr?.trim() }, '⚠️ Failed to remove image');
+    }
+    return result.code === 0;
+}
@@ -56,3 +56,16 @@ export async function getInstallationAccessToken(installationId: number | string
   if (!data || !data.token) throw new Error('No token in GitHub response');
   return data.token as string;
 }
+
+/**
+ * Resolve a token for GitHub API calls made on behalf of a job. An explicit
+ * EPHEMERAL_GITHUB_TOKEN / GITHUB_TOKEN wins; otherwise a fresh installation
+ * token is minted when an installation id is known. Returns undefined when no
+ * credentials are available.
+ */
+export async function resolveGitHubToken(installationId?: number | string): Promise<string | undefined> {
+  const envToken = process.env.EPHEMERAL_GITHUB_TOKEN || process.env.GITHUB_TOKEN;
+  if (envToken) return envToken;
+  if (!installationId) return undefined;
+  return getInstallationAccessToken(installationId);
+}
@@ -7,7 +7,7 @@ export async function postPRComment(
   repoFullName: string,
   prNumber: number,
   body: string
-): Promise<void> {
+): Promise<number> {
   if (!token) throw new Error('Missing GitHub token');
 
   // Octokit, artık her seferinde o işe özel token ile oluşturuluyor
@@ -17,9 +17,358 @@ export async function postPRComment(
 
   logger.info({ owner, repo, prNumber }, '💬 Posting comment to PR');
   // Use the modern REST namespace
-  await octokit.rest.issues.createComment({ owner, repo, issue_number: prNumber, body }).catch((err) => {
+  const { data } = await octokit.rest.issues.createComment({ owner, repo, issue_number: prNumber, body }).catch((err) => {
     logger.warn({ owner, repo, prNumber, err }, 'octokit.rest.issues.createComment failed');
     throw err;
   });
-  logger.info({ owner, repo, prNumber }, '✅ Posted PR comment');
+  logger.info({ owner, repo, prNumber, commentId: data.id }, '✅ Posted PR comment');
+  return data.id;
+}
+
+export interface PRComment {
+  id: number;
+  body: string;
+  authorLogin?: string;
+  // Set when a GitHub App posted the comment with an installation token
+  appId?: number;
+}
+
+/**
+ * Find the PR's comments whose body contains `marker`, oldest first.
+ */
+export async function findPRComments(token: string, repoFullName: string, prNumber: number, marker: string): Promise<PRComment[]> {
+  if (!token) throw new Error('Missing GitHub token');
+
+  const octokit = new Octokit({ auth: token });
+  const [owner, repo] = repoFullName.split('/');
+  if (!owner || !repo) throw new Error('Invalid repo full name, expected owner/repo');
+
+  const found: PRComment[] = [];
+  const pages = octokit.paginate.iterator(octokit.rest.issues.listComments, { owner, repo, issue_number: prNumber, per_page: 100 });
+  for await (const { data } of pages) {
+    for (const comment of data) {
+      if (comment.body?.includes(marker)) {
+        found.push({ id: comment.id, body: comment.body, authorLogin: comment.user?.login, appId: comment.performed_via_github_app?.id });
+      }
+    }
+  }
+  return found;
+}
+
+/**
+ * Replace the body of an existing PR comment.
+ */
+export async function updatePRComment(token: string, repoFullName: string, commentId: number, body: string): Promise<void> {
+  if (!token) throw new Error('Missing GitHub token');
+
+  const octokit = new Octokit({ auth: token });
+  const [owner, repo] = repoFullName.split('/');
+  if (!owner || !repo) throw new Error('Invalid repo full name, expected owner/repo');
+
+  await octokit.rest.issues.updateComment({ owner, repo, comment_id: commentId, body });
+  logger.info({ owner, repo, commentId }, '✏️ Updated PR comment');
+}
+
+/**
+ * Returns whether the pull request is still open.
+ */
+export async function isPullRequestOpen(token: string, repoFullName: string, prNumber: number): Promise<boolean> {
+  if (!token) throw new Error('Missing GitHub token');
+
+  const octokit = new Octokit({ auth: token });
+  const [owner, repo] = repoFullName.split('/');
+  if (!owner || !repo) throw new Error('Invalid repo full name, expected owner/repo');
+
+  const { data } = await octokit.rest.pulls.get({ owner, repo, pull_number: prNumber });
+  return data.state === 'open';
+}
+
+export type DeploymentState = 'in_progress' | 'success' | 'failure' | 'error' | 'inactive';
+
+export interface DeploymentStatusOptions {
+  environmentUrl?: string;
+  logUrl?: string;
+  description?: string;
+}
+
+/**
+ * Create a GitHub Deployment of `ref` to a transient, non-production
+ * environment and return its id.
+ */
+export async function createDeployment(
+  token: string,
+  repoFullName: string,
+  ref: string,
+  environment: string,
+  description?: string
+): Promise<number> {
+  if (!token) throw new Error('Missing GitHub token');
+
+  const octokit = new Octokit({ auth: token });
+  const [owner, repo] = repoFullName.split('/');
+  if (!owner || !repo) throw new Error('Invalid repo full name, expected owner/repo');
+
+  const { data } = await octokit.rest.repos.createDeployment({
+    owner,
+    repo,
+    ref,
+    environment,
+    description,
+    // Previews deploy whatever was pushed; commit statuses must not block them
+    auto_merge: false,
+    required_contexts: [],
+    transient_environment: true,
+    production_environment: false,
+  });
+  if (!('id' in data)) throw new Error(`GitHub did not create the deployment: ${data.message ?? 'unknown reason'}`);
+  logger.info({ owner, repo, environment, deploymentId: data.id }, '🚀 Created GitHub deployment');
+  return data.id;
+}
+
+/**
+ * Add a status to a GitHub Deployment. `success` marks the environment's
+ * earlier deployments inactive.
+ */
+export async function createDeploymentStatus(
+  token: string,
+  repoFullName: string,
+  deploymentId: number,
+  state: DeploymentState,
+  options: DeploymentStatusOptions = {}
+): Promise<void> {
+  if (!token) throw new Error('Missing GitHub token');
+
+  const octokit = new Octokit({ auth: token });
+  const [owner, repo] = repoFullName.split('/');
+  if (!owner || !repo) throw new Error('Invalid repo full name, expected owner/repo');
+
+  await octokit.rest.repos.createDeploymentStatus({
+    owner,
+    repo,
+    deployment_id: deploymentId,
+    state,
+    environment_url: options.environmentUrl,
+    log_url: options.logUrl,
+    // GitHub rejects descriptions over 140 characters
+    description: options.description?.slice(0, 140),
+    auto_inactive: true,
+  });
+  logger.info({ owner, repo, deploymentId, state }, '📦 Updated GitHub deployment status');
+}
+
+/**
+ * Ids of the deployments made to `environment`, newest first.
+ */
+export async function listDeployments(token: string, repoFullName: string, environment: string): Promise<number[]> {
+  if (!token) throw new Error('Missing GitHub token');
+
+  const octokit = new Octokit({ auth: token });
+  const [owner, repo] = repoFullName.split('/');
+  if (!owner || !repo) throw new Error('Invalid repo full name, expected owner/repo');
+
+  const { data } = await octokit.rest.repos.listDeployments({ owner, repo, environment, per_page: 100 });
+  return data.map(deployment => deployment.id);
+}
+
+export interface CheckRunAnnotation {
+  path: string;
+  start_line: number;
+  end_line: number;
+  annotation_level: 'notice' | 'warning' | 'failure';
+  message: string;
+  title?: string;
+}
+
+export interface CheckRunUpdate {
+  status?: 'queued' | 'in_progress' | 'completed';
+  conclusion?: 'success' | 'failure' | 'cancelled' | 'neutral';
+  detailsUrl?: string;
+  output?: {
+    title: string;
+    summary: string;
+    annotations?: CheckRunAnnotation[];
+  };
+}
+
+// GitHub accepts at most 50 annotations per request
+const MAX_ANNOTATIONS = 50;
+
+function checkRunParams(update: CheckRunUpdate) {
+  return {
+    status: update.status,
+    conclusion: update.conclusion,
+    completed_at: update.conclusion ? new Date().toISOString() : undefined,
+    details_url: update.detailsUrl,
+    output: update.output && {
+      ...update.output,
+      annotations: update.output.annotations?.slice(0, MAX_ANNOTATIONS),
+    },
+  };
+}
+
+/**
+ * Create a Check Run on `headSha` and return its id. Only GitHub App
+ * installation tokens may create check runs.
+ */
+export async function createCheckRun(token: string, repoFullName: string, name: string, headSha: string, update: CheckRunUpdate = {}): Promise<number> {
+  if (!token) throw new Error('Missing GitHub token');
+
+  const octokit = new Octokit({ auth: token });
+  const [owner, repo] = repoFullName.split('/');
+  if (!owner || !repo) throw new Error('Invalid repo full name, expected owner/repo');
+
+  const { data } = await octokit.rest.checks.create({ owner, repo, name, head_sha: headSha, ...checkRunParams(update) });
+  logger.info({ owner, repo, checkRunId: data.id, headSha }, '☑️ Created check run');
+  return data.id;
+}
+
+/**
+ * Update the status, conclusion or output of a Check Run.
+ */
+export async function updateCheckRun(token: string, repoFullName: string, checkRunId: number, update: CheckRunUpdate): Promise<void> {
+  if (!token) throw new Error('Missing GitHub token');
+
+  const octokit = new Octokit({ auth: token });
+  const [owner, repo] = repoFullName.split('/');
+  if (!owner || !repo) throw new Error('Invalid repo full name, expected owner/repo');
+
+  await octokit.rest.checks.update({ owner, repo, check_run_id: checkRunId, ...checkRunParams(update) });
+  logger.info({ owner, repo, checkRunId, status: update.status, conclusion: update.conclusion }, '☑️ Updated check run');
+}
+
+/**
+ * A user's permission on the repository: `admin`, `write`, `read` or `none`.
+ */
+export async function getRepoPermission(token: string, repoFullName: string, username: string): Promise<string> {
+  if (!token) throw new Error('Missing GitHub token');
+
+  const octokit = new Octokit({ auth: token });
+  const [owner, repo] = repoFullName.split('/');
+  if (!owner || !repo) throw new Error('Invalid repo full name, expected owner/repo');
+
+  const { data } = await octokit.rest.repos.getCollaboratorPermissionLevel({ owner, repo, username });
+  return data.permission;
+}
+
+export type ReactionContent = '+1' | '-1' | 'laugh' | 'confused' | 'heart' | 'hooray' | 'rocket' | 'eyes';
+
+/**
+ * React to a PR (issue) comment.
+ */
+export async function addCommentReaction(token: string, repoFullName: string, commentId: number, content: ReactionContent): Promise<void> {
+  if (!token) throw new Error('Missing GitHub token');
+
+  const octokit = new Octokit({ auth: token });
+  const [owner, repo] = repoFullName.split('/');
+  if (!owner || !repo) throw new Error('Invalid repo full name, expected owner/repo');
+
+  await octokit.rest.reactions.createForIssueComment({ owner, repo, comment_id: commentId, content });
+}
+
+export interface PullRequestHead {
+  state: string;
+  title: string;
+  author?: string;
+  branch: string;
+  commitSha: string;
+  // Undefined when the head repository (e.g. a fork) was deleted
+  cloneUrl?: string;
+  repoFullName?: string;
+  // What the preview policies look at
+  draft: boolean;
+  labels: Array<{ name: string }>;
+}
+
+/**
+ * Fetch the current head of a pull request.
+ */
+export async function getPullRequestHead(token: string, repoFullName: string, prNumber: number): Promise<PullRequestHead> {
+  if (!token) throw new Error('Missing GitHub token');
+
+  const octokit = new Octokit({ auth: token });
+  const [owner, repo] = repoFullName.split('/');
+  if (!owner || !repo) throw new Error('Invalid repo full name, expected owner/repo');
+
+  const { data } = await octokit.rest.pulls.get({ owner, repo, pull_number: prNumber });
+  return {
+    state: data.state,
+    title: data.title,
+    author: data.user?.login,
+    branch: data.head.ref,
+    commitSha: data.head.sha,
+    cloneUrl: data.head.repo?.clone_url,
+    repoFullName: data.head.repo?.full_name,
+    draft: Boolean(data.draft),
+    labels: data.labels.map(label => ({ name: label.name })),
+  };
+}
+
+/**
+ * Whether the user is a member of the organization, as seen by `token`
+ * (an installation token with the members permission sees private members).
+ */
+export async function isOrgMember(token: string, org: string, username: string): Promise<boolean> {
+  if (!token) throw new Error('Missing GitHub token');
+
+  const octokit = new Octokit({ auth: token });
+  try {
+    await octokit.rest.orgs.checkMembershipForUser({ org, username });
+    return true;
+  } catch (err: any) {
+    if (err?.status === 404 || err?.status === 302) return false;
+    throw err;
+  }
+}
+
+/**
+ * Whether the user is a collaborator on the repository (directly, through a
+ * team or as an organization owner). Unlike a permission lookup, anyone who
+ * can merely read a public repository doesn't count.
+ */
+export async function isRepoCollaborator(token: string, repoFullName: string, username: string): Promise<boolean> {
+  if (!token) throw new Error('Missing GitHub token');
+
+  const octokit = new Octokit({ auth: token });
+  const [owner, repo] = repoFullName.split('/');
+  if (!owner || !repo) throw new Error('Invalid repo full name, expected owner/repo');
+
+  try {
+    await octokit.rest.repos.checkCollaborator({ owner, repo, username });
+    return true;
+  } catch (err: any) {
+    if (err?.status === 404) return false;
+    throw err;
+  }
+}
+
+/**
+ * Contents of a file on the repository's default branch (or `ref`), or
+ * undefined when there is no such file.
+ */
+export async function getRepoFile(token: string, repoFullName: string, filePath: string, ref?: string): Promise<string | undefined> {
+  if (!token) throw new Error('Missing GitHub token');
+
+  const octokit = new Octokit({ auth: token });
+  const [owner, repo] = repoFullName.split('/');
+  if (!owner || !repo) throw new Error('Invalid repo full name, expected owner/repo');
+
+  try {
+    const { data } = await octokit.rest.repos.getContent({ owner, repo, path: filePath, ref });
+    if (Array.isArray(data) || data.type !== 'file' || !('content' in data)) return undefined;
+    return Buffer.from(data.content, 'base64').toString('utf8');
+  } catch (err: any) {
+    if (err?.status === 404) return undefined;
+    throw err;
+  }
+}
+
+/**
+ * Login of the user a (user-to-server) OAuth token belongs to.
+ */
+export async function getAuthenticatedLogin(token: string): Promise<string> {
+  if (!token) throw new Error('Missing GitHub token');
+
+  const octokit = new Octokit({ auth: token });
+  const { data } = await octokit.rest.users.getAuthenticated();
+  return data.login;
 }
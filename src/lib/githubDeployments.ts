@@ -0,0 +1,84 @@
+import logger from '../utils/logger.js';
+import { DeploymentKey, parseDeploymentKey } from './deploymentKey.js';
+import { resolveGitHubToken } from './githubAuth.js';
+import { createDeployment, createDeploymentStatus, DeploymentState, DeploymentStatusOptions, listDeployments } from './githubClient.js';
+
+/**
+ * Whether previews are reported through the GitHub Deployments API. The App
+ * needs the "Deployments" read & write permission for this.
+ */
+function deploymentsEnabled(): boolean {
+  return process.env.GITHUB_DEPLOYMENTS !== 'false';
+}
+
+/**
+ * GitHub environment a PR's previews are deployed to.
+ */
+export function environmentFor(key: DeploymentKey): string {
+  return `preview/pr-${parseDeploymentKey(key).prNumber}`;
+}
+
+/**
+ * Create a GitHub Deployment for a preview build and mark it in progress.
+ * Best-effort: returns undefined when it could not be created, and later
+ * status updates for it are then skipped.
+ */
+export async function startGitHubDeployment(
+  key: DeploymentKey,
+  installationId: number | string | undefined,
+  ref: string,
+  logUrl?: string
+): Promise<number | undefined> {
+  if (!deploymentsEnabled()) return undefined;
+  const { repoFullName, prNumber } = parseDeploymentKey(key);
+  try {
+    const token = await resolveGitHubToken(installationId);
+    if (!token) return undefined;
+    const deploymentId = await createDeployment(token, repoFullName, ref, environmentFor(key), `EnvZilla preview for PR #${prNumber}`);
+    await createDeploymentStatus(token, repoFullName, deploymentId, 'in_progress', { logUrl, description: 'Building preview' });
+    return deploymentId;
+  } catch (err: any) {
+    logger.warn({ deployment: key, err: err?.message }, 'Failed to create GitHub deployment');
+    return undefined;
+  }
+}
+
+/**
+ * Report the outcome of a preview build on its GitHub Deployment.
+ */
+export async function setGitHubDeploymentStatus(
+  key: DeploymentKey,
+  installationId: number | string | undefined,
+  deploymentId: number | undefined,
+  state: DeploymentState,
+  options: DeploymentStatusOptions = {}
+): Promise<void> {
+  if (deploymentId === undefined) return;
+  const { repoFullName } = parseDeploymentKey(key);
+  try {
+    const token = await resolveGitHubToken(installationId);
+    if (!token) return;
+    await createDeploymentStatus(token, repoFullName, deploymentId, state, options);
+  } catch (err: any) {
+    logger.warn({ deployment: key, deploymentId, state, err: err?.message }, 'Failed to update GitHub deployment status');
+  }
+}
+
+/**
+ * Mark every GitHub Deployment of the PR's environment inactive, e.g. once
+ * its preview has been destroyed.
+ */
+export async function deactivateGitHubDeployments(key: DeploymentKey, installationId: number | string | undefined): Promise<void> {
+  if (!deploymentsEnabled()) return;
+  const { repoFullName } = parseDeploymentKey(key);
+  try {
+    const token = await resolveGitHubToken(installationId);
+    if (!token) return;
+    const deploymentIds = await listDeployments(token, repoFullName, environmentFor(key));
+    for (const deploymentId of deploymentIds) {
+      await createDeploymentStatus(token, repoFullName, deploymentId, 'inactive', { description: 'Preview destroyed' });
+    }
+  } catch (err: any) {
+    logger.warn({ deployment: key, err: err?.message }, 'Failed to deactivate GitHub deployments');
+  }
+}
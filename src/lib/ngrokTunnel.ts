@@ -0,0 +1,88 @@
+import logger from '../utils/logger.js';
+import { DeploymentKey } from './deploymentKey.js';
+import type { TunnelExitListener, TunnelInfo, TunnelProvider, TunnelStatus } from './tunnelProvider.js';
+
+/**
+ * One ngrok tunnel per preview, through the `ngrok` package (which runs a
+ * single ngrok agent for all of them). NGROK_AUTHTOKEN is needed for more
+ * than one tunnel at a time.
+ */
+export class NgrokTunnelProvider implements TunnelProvider {
+  readonly name = 'ngrok';
+  private tunnels = new Map<DeploymentKey, TunnelStatus>();
+  private exitListeners: TunnelExitListener[] = [];
+
+  private async client() {
+    return (await import('ngrok')).default;
+  }
+
+  async start(key: DeploymentKey, port: number): Promise<TunnelInfo> {
+    logger.info({ port, deployment: key }, '🔌 Starting ngrok tunnel');
+    await this.stop(key);
+
+    const ngrok = await this.client();
+    const status: TunnelStatus = { deployment: key, provider: this.name, state: 'starting', port, startedAt: Date.now() };
+    this.tunnels.set(key, status);
+    try {
+      status.publicUrl = await ngrok.connect({
+        proto: 'http',
+        addr: `127.0.0.1:${port}`,
+        authtoken: process.env.NGROK_AUTHTOKEN || undefined,
+        region: (process.env.NGROK_REGION || undefined) as any,
+        onTerminated: () => this.handleTerminated(),
+      });
+    } catch (error) {
+      if (this.tunnels.get(key) === status) this.tunnels.delete(key);
+      throw error;
+    }
+    status.state = 'connected';
+    logger.info({ publicUrl: status.publicUrl, port, deployment: key }, '✅ ngrok tunnel established');
+    return { publicUrl: status.publicUrl, proto: 'https', port };
+  }
+
+  async stop(key: DeploymentKey): Promise<void> {
+    const status = this.tunnels.get(key);
+    if (!status) return;
+    this.tunnels.delete(key);
+    if (!status.publicUrl) return;
+    try {
+      await (await this.client()).disconnect(status.publicUrl);
+      logger.info({ deployment: key }, '🛑 ngrok tunnel closed for PR');
+    } catch (err: any) {
+      logger.warn({ err, deployment: key }, 'Failed to close ngrok tunnel for PR');
+    }
+  }
+
+  status(key: DeploymentKey): TunnelStatus | undefined {
+    const status = this.tunnels.get(key);
+    return status && { ...status };
+  }
+
+  listActive(): TunnelStatus[] {
+    return Array.from(this.tunnels.values(), status => ({ ...status }));
+  }
+
+  onExit(listener: TunnelExitListener): void {
+    this.exitListeners.push(listener);
+  }
+
+  /**
+   * The agent serves every tunnel, so all of them are gone when it dies.
+   */
+  private handleTerminated(): void {
+    const lost = Array.from(this.tunnels.keys());
+    this.tunnels.clear();
+    if (lost.length === 0) return;
+    logger.warn({ tunnels: lost.length }, 'ngrok agent terminated');
+    const error = new Error('ngrok agent terminated');
+    for (const key of lost) {
+      for (const listener of this.exitListeners) listener(key, error);
+    }
+  }
+
+  async stopAll(): Promise<void> {
+    this.tunnels.clear();
+    await (await this.client()).kill();
+    logger.info({}, '🛑 ngrok agent stopped');
+  }
+}
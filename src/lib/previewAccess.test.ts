@@ -0,0 +1,109 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { authorizeRequest, createSignedLink } from './previewAccess.js';
+import { makeDeploymentKey } from './deploymentKey.js';
+import type { AccessConfig } from './repoConfig.js';
+
+const ORIGIN = 'https://pr-7.web.previews.example.com';
+const KEY = makeDeploymentKey('acme/web', 7);
+const OTHER_KEY = makeDeploymentKey('acme/web', 8);
+const ACCESS: AccessConfig = {
+  mode: 'signed',
+  username: 'preview',
+  passwordSecret: 'PREVIEW_PASSWORD',
+  allow: 'collaborators',
+  sessionTtlMs: 60 * 60 * 1000,
+};
+
+interface Recorded {
+  status?: number;
+  headers: http.OutgoingHttpHeaders;
+}
+
+function request(url: string, cookie?: string): http.IncomingMessage {
+  return { url, headers: cookie ? { cookie } : {} } as http.IncomingMessage;
+}
+
+function response(): { res: http.ServerResponse; recorded: Recorded } {
+  const recorded: Recorded = { headers: {} };
+  const res = {
+    writeHead(status: number, headers: http.OutgoingHttpHeaders = {}) {
+      recorded.status = status;
+      recorded.headers = headers;
+      return this;
+    },
+    end() { return this; },
+  } as unknown as http.ServerResponse;
+  return { res, recorded };
+}
+
+// Path and query of a signed link, as the proxy sees the request
+function requestPath(link: string): string {
+  const url = new URL(link);
+  return url.pathname + url.search;
+}
+
+let savedSecret: string | undefined;
+
+beforeEach(() => {
+  savedSecret = process.env.PREVIEW_AUTH_SECRET;
+  process.env.PREVIEW_AUTH_SECRET = 'test-signing-secret';
+});
+
+afterEach(() => {
+  if (savedSecret === undefined) delete process.env.PREVIEW_AUTH_SECRET;
+  else process.env.PREVIEW_AUTH_SECRET = savedSecret;
+});
+
+test('createSignedLink needs PREVIEW_AUTH_SECRET', () => {
+  delete process.env.PREVIEW_AUTH_SECRET;
+  assert.throws(() => createSignedLink(KEY, ORIGIN, 60_000), /PREVIEW_AUTH_SECRET/);
+});
+
+test('a signed link starts a session that authorizes later requests', async () => {
+  const link = createSignedLink(KEY, `${ORIGIN}/dashboard?tab=2`, 60_000);
+  assert.ok(link.expiresAt > Date.now());
+
+  const { res, recorded } = response();
+  assert.equal(await authorizeRequest(request(requestPath(link.url)), res, KEY, ACCESS, ORIGIN), false);
+  assert.equal(recorded.status, 302);
+  assert.equal(recorded.headers.Location, '/dashboard?tab=2');
+  const [setCookie] = recorded.headers['Set-Cookie'] as string[];
+  assert.match(setCookie, /^envzilla_session=[^;]+; Path=\/; Max-Age=(59|60); HttpOnly; SameSite=Lax; Secure$/);
+
+  const session = setCookie.split(';')[0];
+  const req = request('/dashboard', `theme=dark; ${session}`);
+  assert.equal(await authorizeRequest(req, response().res, KEY, ACCESS, ORIGIN), true);
+  // The app only sees its own cookies
+  assert.equal(req.headers.cookie, 'theme=dark');
+});
+
+test('signed links only open the preview they were made for', async () => {
+  const link = createSignedLink(OTHER_KEY, ORIGIN, 60_000);
+  const { res, recorded } = response();
+  assert.equal(await authorizeRequest(request(requestPath(link.url)), res, KEY, ACCESS, ORIGIN), false);
+  assert.equal(recorded.status, 403);
+});
+
+test('forged, tampered, expired or differently signed links are refused', async () => {
+  const token = new URL(createSignedLink(KEY, ORIGIN, 60_000).url).searchParams.get('envzilla_token')!;
+  const [body, signature] = token.split('.');
+  const forged = Buffer.from(JSON.stringify({ t: 'link', k: KEY, exp: Date.now() + 10 ** 9 })).toString('base64url');
+  const expired = new URL(createSignedLink(KEY, ORIGIN, -1000).url).searchParams.get('envzilla_token')!;
+  process.env.PREVIEW_AUTH_SECRET = 'another-secret';
+  const foreign = new URL(createSignedLink(KEY, ORIGIN, 60_000).url).searchParams.get('envzilla_token')!;
+  process.env.PREVIEW_AUTH_SECRET = 'test-signing-secret';
+
+  for (const value of [`${forged}.${signature}`, `${body}.${signature.slice(1)}`, expired, foreign]) {
+    const { res, recorded } = response();
+    assert.equal(await authorizeRequest(request(`/?envzilla_token=${value}`), res, KEY, ACCESS, ORIGIN), false);
+    assert.equal(recorded.status, 403);
+  }
+});
+
+test('requests without a link or session are refused', async () => {
+  const { res, recorded } = response();
+  assert.equal(await authorizeRequest(request('/', 'envzilla_session=garbage'), res, KEY, ACCESS, ORIGIN), false);
+  assert.equal(recorded.status, 403);
+});
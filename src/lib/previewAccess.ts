@@ -0,0 +1,339 @@
+import crypto from 'crypto';
+import http from 'http';
+import logger from '../utils/logger.js';
+import { DeploymentKey, parseDeploymentKey } from './deploymentKey.js';
+import { resolveSecrets } from './secretsStore.js';
+import { getDeploymentStore } from './deploymentStore.js';
+import { resolveGitHubToken } from './githubAuth.js';
+import { getAuthenticatedLogin, isOrgMember, isRepoCollaborator } from './githubClient.js';
+import type { AccessConfig } from './repoConfig.js';
+
+/**
+ * Access protection for previews served by the built-in proxy, set with
+ * `access` in `.envzilla.yml`:
+ *
+ * - `basic`: HTTP basic auth, the password kept in the secrets store;
+ * - `github`: sign in with GitHub, limited to the repository's collaborators
+ *   or the owner organization's members;
+ * - `signed`: time-limited links signed with PREVIEW_AUTH_SECRET.
+ *
+ * A successful GitHub sign-in or signed link visit leaves a signed session
+ * cookie for the preview's host. EnvZilla's own cookies and credentials are
+ * removed before a request reaches the app.
+ */
+
+export const ACCESS_MODES = ['basic', 'github', 'signed'] as const;
+export type AccessMode = typeof ACCESS_MODES[number];
+
+export const GITHUB_ACCESS_RULES = ['collaborators', 'org'] as const;
+export type GitHubAccessRule = typeof GITHUB_ACCESS_RULES[number];
+
+// Paths under this prefix are answered by EnvZilla, not the app
+const AUTH_PATH = '/_envzilla/auth';
+const CALLBACK_PATH = `${AUTH_PATH}/callback`;
+const SESSION_COOKIE = 'envzilla_session';
+const STATE_COOKIE = 'envzilla_oauth';
+const TOKEN_PARAM = 'envzilla_token';
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+type TokenType = 'session' | 'link' | 'state';
+
+interface TokenPayload {
+  t: TokenType;
+  // Deployment the token is valid for
+  k: DeploymentKey;
+  exp: number;
+  // Who signed in (session), or the OAuth nonce and return path (state)
+  u?: string;
+  n?: string;
+  r?: string;
+}
+
+// Access settings of the deployments the proxy serves
+const accessByDeployment = new Map<DeploymentKey, AccessConfig>();
+
+/**
+ * Protect a preview (or make it public again with `undefined`). Called when
+ * traffic switches to a new build and when a preview is re-adopted.
+ */
+export function setPreviewAccess(key: DeploymentKey, access: AccessConfig | undefined): void {
+  if (access) accessByDeployment.set(key, access);
+  else accessByDeployment.delete(key);
+}
+
+export function getPreviewAccess(key: DeploymentKey): AccessConfig | undefined {
+  return accessByDeployment.get(key);
+}
+
+function authSecret(): string | undefined {
+  return process.env.PREVIEW_AUTH_SECRET || undefined;
+}
+
+function oauthClient(): { id: string; secret: string } | undefined {
+  const id = process.env.GITHUB_OAUTH_CLIENT_ID;
+  const secret = process.env.GITHUB_OAUTH_CLIENT_SECRET;
+  return id && secret ? { id, secret } : undefined;
+}
+
+/**
+ * Problems with the server configuration that would make the repository's
+ * access setting unenforceable. The build refuses to expose the preview then.
+ */
+export async function checkPreviewAccess(key: DeploymentKey, access: AccessConfig): Promise<string[]> {
+  const issues: string[] = [];
+  if (access.mode === 'basic') {
+    const secrets = await resolveSecrets(key);
+    if (!secrets[access.passwordSecret]) issues.push(`access.mode basic needs the password stored as secret ${access.passwordSecret}`);
+  } else if (!authSecret()) {
+    issues.push(`access.mode ${access.mode} needs PREVIEW_AUTH_SECRET to be set`);
+  }
+  if (access.mode === 'github' && !oauthClient()) {
+    issues.push('access.mode github needs GITHUB_OAUTH_CLIENT_ID and GITHUB_OAUTH_CLIENT_SECRET to be set');
+  }
+  return issues;
+}
+
+function hmac(value: string, secret: string): Buffer {
+  return crypto.createHmac('sha256', secret).update(value).digest();
+}
+
+function sealToken(payload: TokenPayload, secret: string): string {
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${body}.${hmac(body, secret).toString('base64url')}`;
+}
+
+/**
+ * The payload of a token of the given type for the deployment, if its
+ * signature is valid and it hasn't expired.
+ */
+function openToken(value: string | undefined, type: TokenType, key: DeploymentKey): TokenPayload | undefined {
+  const secret = authSecret();
+  if (!value || !secret) return undefined;
+  const [body, signature] = value.split('.');
+  if (!body || !signature) return undefined;
+  const expected = hmac(body, secret);
+  const given = Buffer.from(signature, 'base64url');
+  if (given.length !== expected.length || !crypto.timingSafeEqual(given, expected)) return undefined;
+  try {
+    const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8')) as TokenPayload;
+    return payload.t === type && payload.k === key && payload.exp > Date.now() ? payload : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * A link to the preview that works until `ttlMs` from now, for `signed`
+ * access. `previewUrl` is the preview's public URL.
+ */
+export function createSignedLink(key: DeploymentKey, previewUrl: string, ttlMs: number): { url: string; expiresAt: number } {
+  const secret = authSecret();
+  if (!secret) throw new Error('PREVIEW_AUTH_SECRET is not set');
+  const expiresAt = Date.now() + ttlMs;
+  const url = new URL(previewUrl);
+  url.searchParams.set(TOKEN_PARAM, sealToken({ t: 'link', k: key, exp: expiresAt }, secret));
+  return { url: url.toString(), expiresAt };
+}
+
+function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const part of (header || '').split(';')) {
+    const index = part.indexOf('=');
+    if (index > 0) cookies[part.slice(0, index).trim()] = part.slice(index + 1).trim();
+  }
+  return cookies;
+}
+
+/**
+ * Remove what only EnvZilla needs from a request before it is proxied.
+ */
+function stripCredentials(req: http.IncomingMessage, access: AccessConfig): void {
+  const kept = (req.headers.cookie || '').split(';').filter(part => !part.trim().startsWith('envzilla_'));
+  if (kept.some(part => part.trim())) req.headers.cookie = kept.join(';').trim();
+  else delete req.headers.cookie;
+  if (access.mode === 'basic') delete req.headers.authorization;
+}
+
+function cookie(name: string, value: string, maxAgeMs: number, secure: boolean): string {
+  return [
+    `${name}=${value}`,
+    'Path=/',
+    `Max-Age=${Math.max(0, Math.floor(maxAgeMs / 1000))}`,
+    'HttpOnly',
+    'SameSite=Lax',
+    ...(secure ? ['Secure'] : []),
+  ].join('; ');
+}
+
+/**
+ * A redirect target on the preview itself; anything that could be read as
+ * another host becomes `/`.
+ */
+function localPath(path: string | undefined): string {
+  return path && path.startsWith('/') && !path.startsWith('//') && !path.startsWith('/\\') ? path : '/';
+}
+
+function sendText(res: http.ServerResponse, status: number, message: string, headers: http.OutgoingHttpHeaders = {}): void {
+  res.writeHead(status, { 'Content-Type': 'text/plain; charset=utf-8', 'Cache-Control': 'no-store', ...headers });
+  res.end(message + '\n');
+}
+
+function redirect(res: http.ServerResponse, location: string, cookies: string[] = []): void {
+  res.writeHead(302, { Location: location, 'Cache-Control': 'no-store', ...(cookies.length ? { 'Set-Cookie': cookies } : {}) });
+  res.end();
+}
+
+function basicAuthValid(req: http.IncomingMessage, access: AccessConfig, password: string | undefined): boolean {
+  const match = (req.headers.authorization || '').match(/^Basic\s+(.+)$/i);
+  if (!match || !password) return false;
+  // Compare digests so the check takes the same time whatever the length
+  const given = crypto.createHash('sha256').update(Buffer.from(match[1], 'base64').toString('utf8')).digest();
+  const expected = crypto.createHash('sha256').update(`${access.username}:${password}`).digest();
+  return crypto.timingSafeEqual(given, expected);
+}
+
+function sessionValid(req: http.IncomingMessage, key: DeploymentKey): boolean {
+  return openToken(parseCookies(req.headers.cookie)[SESSION_COOKIE], 'session', key) !== undefined;
+}
+
+/**
+ * Whether the visitor may use the preview, checked without a round trip to
+ * GitHub. Used for WebSocket upgrades, which can't be redirected.
+ */
+export async function isRequestAuthorized(req: http.IncomingMessage, key: DeploymentKey, access: AccessConfig): Promise<boolean> {
+  const allowed = access.mode === 'basic'
+    ? basicAuthValid(req, access, (await resolveSecrets(key))[access.passwordSecret])
+    : sessionValid(req, key);
+  if (allowed) stripCredentials(req, access);
+  return allowed;
+}
+
+/**
+ * Whether a GitHub user may open the preview, checked with the repository's
+ * installation token.
+ */
+async function githubUserAllowed(key: DeploymentKey, login: string, access: AccessConfig): Promise<boolean> {
+  const record = await getDeploymentStore().get(key);
+  const token = await resolveGitHubToken(record?.installationId);
+  if (!token) throw new Error('No GitHub token available to check access');
+  const { owner, repoFullName } = parseDeploymentKey(key);
+  if (access.allow === 'org') return isOrgMember(token, owner, login);
+  return isRepoCollaborator(token, repoFullName, login);
+}
+
+async function exchangeOAuthCode(code: string, redirectUri: string): Promise<string> {
+  const client = oauthClient();
+  if (!client) throw new Error('GitHub OAuth is not configured');
+  const res = await fetch('https://github.com/login/oauth/access_token', {
+    method: 'POST',
+    headers: { Accept: 'application/json', 'Content-Type': 'application/json' },
+    body: JSON.stringify({ client_id: client.id, client_secret: client.secret, code, redirect_uri: redirectUri }),
+    signal: AbortSignal.timeout(10_000),
+  });
+  const data: any = await res.json().catch(() => ({}));
+  if (!data.access_token) throw new Error(data.error_description || data.error || `GitHub answered ${res.status}`);
+  return data.access_token;
+}
+
+async function handleOAuthCallback(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  key: DeploymentKey,
+  access: AccessConfig,
+  url: URL
+): Promise<void> {
+  const state = openToken(url.searchParams.get('state') ?? undefined, 'state', key);
+  // The nonce cookie ties the callback to the browser that started the sign-in
+  if (!state || !state.n || parseCookies(req.headers.cookie)[STATE_COOKIE] !== state.n) {
+    return sendText(res, 400, 'This sign-in link has expired. Open the preview again to sign in.');
+  }
+  const code = url.searchParams.get('code');
+  if (!code) return sendText(res, 403, 'GitHub sign-in was cancelled.');
+
+  let login: string;
+  try {
+    login = await getAuthenticatedLogin(await exchangeOAuthCode(code, `${url.origin}${CALLBACK_PATH}`));
+  } catch (err: any) {
+    logger.warn({ deployment: key, err: err?.message }, 'GitHub sign-in for preview failed');
+    return sendText(res, 502, 'Signing in with GitHub failed. Please try again.');
+  }
+
+  let allowed: boolean;
+  try {
+    allowed = await githubUserAllowed(key, login, access);
+  } catch (err: any) {
+    logger.warn({ deployment: key, login, err: err?.message }, 'Could not check preview access on GitHub');
+    return sendText(res, 502, 'Could not check your access on GitHub. Please try again.');
+  }
+  if (!allowed) {
+    logger.info({ deployment: key, login }, 'Refused preview access to GitHub user');
+    return sendText(res, 403, `${login} doesn't have access to this preview.`);
+  }
+
+  const secure = url.protocol === 'https:';
+  const session = sealToken({ t: 'session', k: key, u: login, exp: Date.now() + access.sessionTtlMs }, authSecret()!);
+  logger.info({ deployment: key, login }, '🔓 GitHub user signed in to preview');
+  redirect(res, localPath(state.r), [
+    cookie(SESSION_COOKIE, session, access.sessionTtlMs, secure),
+    cookie(STATE_COOKIE, '', 0, secure),
+  ]);
+}
+
+/**
+ * Enforce the preview's access setting on a request. Returns true when the
+ * request may be proxied; otherwise a response (a challenge, a redirect or
+ * an error) has been sent. `origin` is the preview's public origin.
+ */
+export async function authorizeRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  key: DeploymentKey,
+  access: AccessConfig,
+  origin: string
+): Promise<boolean> {
+  const url = new URL(req.url || '/', origin);
+  const secure = url.protocol === 'https:';
+
+  if (access.mode === 'github' && url.pathname === CALLBACK_PATH) {
+    await handleOAuthCallback(req, res, key, access, url);
+    return false;
+  }
+  if (await isRequestAuthorized(req, key, access)) return true;
+
+  switch (access.mode) {
+    case 'basic':
+      sendText(res, 401, 'This preview is password protected.', { 'WWW-Authenticate': 'Basic realm="EnvZilla preview", charset="UTF-8"' });
+      return false;
+
+    case 'signed': {
+      const link = openToken(url.searchParams.get(TOKEN_PARAM) ?? undefined, 'link', key);
+      if (!link) {
+        sendText(res, 403, 'This preview can only be opened with a valid signed link.');
+        return false;
+      }
+      const maxAgeMs = Math.min(link.exp - Date.now(), access.sessionTtlMs);
+      const session = sealToken({ t: 'session', k: key, exp: Date.now() + maxAgeMs }, authSecret()!);
+      url.searchParams.delete(TOKEN_PARAM);
+      redirect(res, localPath(url.pathname + url.search), [cookie(SESSION_COOKIE, session, maxAgeMs, secure)]);
+      return false;
+    }
+
+    case 'github': {
+      const client = oauthClient();
+      if (!client) {
+        sendText(res, 503, 'Sign-in for this preview is not configured.');
+        return false;
+      }
+      const nonce = crypto.randomBytes(16).toString('base64url');
+      const returnPath = url.pathname.startsWith(AUTH_PATH) ? '/' : localPath(url.pathname + url.search);
+      const state = sealToken({ t: 'state', k: key, n: nonce, r: returnPath, exp: Date.now() + STATE_TTL_MS }, authSecret()!);
+      const authorize = new URL('https://github.com/login/oauth/authorize');
+      authorize.searchParams.set('client_id', client.id);
+      authorize.searchParams.set('redirect_uri', `${url.origin}${CALLBACK_PATH}`);
+      authorize.searchParams.set('state', state);
+      authorize.searchParams.set('allow_signup', 'false');
+      redirect(res, authorize.toString(), [cookie(STATE_COOKIE, nonce, STATE_TTL_MS, secure)]);
+      return false;
+    }
+  }
+}
@@ -0,0 +1,209 @@
+import logger from '../utils/logger.js';
+import { formatDuration } from '../utils/duration.js';
+import { DeploymentKey, parseDeploymentKey } from './deploymentKey.js';
+import { resolveGitHubToken } from './githubAuth.js';
+import { findPRComments, getAuthenticatedLogin, postPRComment, PRComment, updatePRComment } from './githubClient.js';
+import type { BuildStep } from './buildContainer.js';
+
+/**
+ * Hidden marker identifying EnvZilla's status comment on a pull request.
+ */
+export const PREVIEW_COMMENT_MARKER = '<!-- envzilla:preview -->';
+
+// Machine-readable copy of the comment's contents, so the history survives
+// restarts and the deployment record being deleted
+const STATE_PATTERN = /<!-- envzilla:state ([A-Za-z0-9+/=]+) -->/;
+
+const MAX_HISTORY = 10;
+
+export type PreviewStatus = 'queued' | 'building' | 'running' | 'failed' | 'cancelled' | 'destroyed' | 'awaiting_approval' | 'blocked';
+
+export interface PreviewBuild {
+  status: PreviewStatus;
+  commitSha?: string;
+  previewUrl?: string;
+  startedAt?: number;
+  completedAt?: number;
+  failedStep?: BuildStep;
+}
+
+export interface PreviewCommentUpdate extends PreviewBuild {
+  author?: string;
+  // Extra markdown shown under the summary, e.g. a failure report
+  details?: string;
+}
+
+interface CommentState {
+  current: PreviewBuild;
+  history: PreviewBuild[];
+}
+
+const STATUS_LABELS: Record<PreviewStatus, string> = {
+  queued: '⏳ Queued',
+  building: '🏗️ Building',
+  running: '✅ Running',
+  failed: '❌ Failed',
+  cancelled: '🛑 Cancelled',
+  destroyed: '💤 Destroyed',
+  awaiting_approval: '✋ Awaiting approval',
+  blocked: '🚫 Not deployed',
+};
+
+const FINISHED: PreviewStatus[] = ['running', 'failed', 'cancelled', 'destroyed', 'blocked'];
+
+/**
+ * Keep only well-formed fields from a parsed state. Anyone can paste the
+ * marker into a comment, so nothing in it is trusted.
+ */
+function sanitizeBuild(raw: any): PreviewBuild | undefined {
+  if (!raw || typeof raw !== 'object' || !(raw.status in STATUS_LABELS)) return undefined;
+  const build: PreviewBuild = { status: raw.status };
+  if (typeof raw.commitSha === 'string' && /^[0-9a-f]{7,40}$/i.test(raw.commitSha)) build.commitSha = raw.commitSha;
+  if (typeof raw.previewUrl === 'string' && /^https?:\/\/[^\s<>()]+$/.test(raw.previewUrl)) build.previewUrl = raw.previewUrl;
+  if (Number.isFinite(raw.startedAt)) build.startedAt = raw.startedAt;
+  if (Number.isFinite(raw.completedAt)) build.completedAt = raw.completedAt;
+  if (typeof raw.failedStep === 'string' && /^[a-z]+$/.test(raw.failedStep)) build.failedStep = raw.failedStep;
+  return build;
+}
+
+function parseState(body: string): CommentState | undefined {
+  const m = body.match(STATE_PATTERN);
+  if (!m) return undefined;
+  try {
+    const raw = JSON.parse(Buffer.from(m[1], 'base64').toString('utf8'));
+    const current = sanitizeBuild(raw.current);
+    if (!current) return undefined;
+    const history = Array.isArray(raw.history) ? raw.history.map(sanitizeBuild).filter(Boolean) as PreviewBuild[] : [];
+    return { current, history: history.slice(0, MAX_HISTORY) };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Apply an update: a new commit or a build starting moves the current build
+ * into the history; anything else updates the current build in place.
+ */
+function applyUpdate(state: CommentState | undefined, update: PreviewBuild): CommentState {
+  if (!state) return { current: update, history: [] };
+
+  const { current } = state;
+  const newBuild = update.status === 'building'
+    || (update.commitSha !== undefined && update.commitSha !== current.commitSha);
+  if (!newBuild) {
+    return { current: { ...current, ...update }, history: state.history };
+  }
+
+  // A build that was still in progress when replaced never finished
+  const retired: PreviewBuild = FINISHED.includes(current.status) ? current : { ...current, status: 'cancelled' };
+  return { current: update, history: [retired, ...state.history].slice(0, MAX_HISTORY) };
+}
+
+function buildDuration(build: PreviewBuild): string | undefined {
+  if (build.startedAt === undefined || build.completedAt === undefined) return undefined;
+  return formatDuration(build.completedAt - build.startedAt);
+}
+
+function shortSha(sha?: string): string {
+  return sha ? `\`${sha.slice(0, 7)}\`` : '—';
+}
+
+function renderPreviewComment(state: CommentState, extras: { author?: string; details?: string } = {}): string {
+  const { current, history } = state;
+  const lines = [
+    PREVIEW_COMMENT_MARKER,
+    `### 🦖 EnvZilla preview — ${STATUS_LABELS[current.status]}`,
+    '',
+  ];
+  if (extras.author) lines.push(`@${extras.author} 👋`, '');
+
+  lines.push('| | |', '|---|---|');
+  lines.push(`| **Status** | ${STATUS_LABELS[current.status]}${current.failedStep ? ` (${current.failedStep})` : ''} |`);
+  lines.push(`| **Commit** | ${shortSha(current.commitSha)} |`);
+  if (current.previewUrl && current.status === 'running') lines.push(`| **Preview** | ${current.previewUrl} |`);
+  const duration = buildDuration(current);
+  if (duration) lines.push(`| **Build time** | ${duration} |`);
+  lines.push(`| **Updated** | ${new Date().toISOString().replace(/\.\d+Z$/, 'Z')} |`);
+
+  if (extras.details) lines.push('', extras.details);
+
+  if (history.length > 0) {
+    lines.push('', `<details><summary>Previous builds (${history.length})</summary>`, '');
+    lines.push('| Commit | Status | Build time | Finished |', '|---|---|---|---|');
+    for (const build of history) {
+      const finished = build.completedAt ? new Date(build.completedAt).toISOString().replace(/\.\d+Z$/, 'Z') : '—';
+      lines.push(`| ${shortSha(build.commitSha)} | ${STATUS_LABELS[build.status]} | ${buildDuration(build) ?? '—'} | ${finished} |`);
+    }
+    lines.push('', '</details>');
+  }
+
+  const encoded = Buffer.from(JSON.stringify(state)).toString('base64');
+  lines.push('', `<!-- envzilla:state ${encoded} -->`);
+  return lines.join('\n');
+}
+
+/**
+ * Whether a comment was written with the identity behind `token`: the same
+ * user for a personal token, or this GitHub App for an installation token
+ * (which can't look itself up). Matches nothing if neither can be told.
+ */
+async function ownCommentMatcher(token: string): Promise<(comment: PRComment) => boolean> {
+  try {
+    const login = await getAuthenticatedLogin(token);
+    return comment => comment.authorLogin === login;
+  } catch {
+    const appId = Number(process.env.GITHUB_APP_ID);
+    return comment => Number.isInteger(appId) && comment.appId === appId;
+  }
+}
+
+// Updates for one PR are applied one at a time so concurrent updates can't
+// each create their own comment
+const updateChains = new Map<DeploymentKey, Promise<void>>();
+
+async function applyPreviewCommentUpdate(key: DeploymentKey, installationId: number | string | undefined, update: PreviewCommentUpdate): Promise<void> {
+  const { repoFullName, prNumber } = parseDeploymentKey(key);
+  const token = await resolveGitHubToken(installationId);
+  if (!token) {
+    logger.info({ repoFullName }, 'No GITHUB_TOKEN or installation token; skipping PR comment');
+    return;
+  }
+
+  // Only a comment EnvZilla wrote itself is edited; one a person wrote (or
+  // quoted) with the marker in it is left alone
+  const comments = await findPRComments(token, repoFullName, prNumber, PREVIEW_COMMENT_MARKER);
+  const isOwn = await ownCommentMatcher(token);
+  const existing = comments.find(isOwn);
+
+  const { author, details, ...build } = update;
+  const state = applyUpdate(existing ? parseState(existing.body) : undefined, build);
+  const body = renderPreviewComment(state, { author, details });
+
+  if (existing) {
+    try {
+      await updatePRComment(token, repoFullName, existing.id, body);
+      return;
+    } catch (err: any) {
+      logger.warn({ deployment: key, commentId: existing.id, err: err?.message }, 'Could not update preview comment; posting a new one');
+    }
+  }
+  await postPRComment(token, repoFullName, prNumber, body);
+}
+
+/**
+ * Create or edit EnvZilla's single status comment on the PR. Best-effort:
+ * failures are logged and never fail the calling job.
+ */
+export function updatePreviewComment(key: DeploymentKey, installationId: number | string | undefined, update: PreviewCommentUpdate): Promise<void> {
+  const previous = updateChains.get(key) ?? Promise.resolve();
+  const next = previous
+    .then(() => applyPreviewCommentUpdate(key, installationId, update))
+    .catch((err: any) => {
+      logger.warn({ deployment: key, status: update.status, err: err?.message }, 'Failed to update preview comment');
+    });
+  updateChains.set(key, next);
+  void next.then(() => {
+    if (updateChains.get(key) === next) updateChains.delete(key);
+  });
+  return next;
+}
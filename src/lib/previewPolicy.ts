@@ -0,0 +1,91 @@
+/**
+ * Which pull requests get a preview, based on their labels and draft state.
+ */
+
+export interface PreviewPolicy {
+  // When set, only PRs carrying this label are deployed
+  requiredLabel?: string;
+  // PRs carrying this label are never deployed
+  skipLabel?: string;
+  // Deploy draft PRs too instead of waiting for `ready_for_review`
+  deployDrafts: boolean;
+}
+
+export interface PolicyPullRequest {
+  draft?: boolean;
+  labels?: Array<{ name: string }>;
+}
+
+/**
+ * Read the policy from the environment (see the README's Configuration
+ * table). Read on each call so values from .env apply.
+ */
+export function previewPolicy(): PreviewPolicy {
+  const skipLabel = process.env.PREVIEW_SKIP_LABEL ?? 'no-preview';
+  return {
+    requiredLabel: process.env.PREVIEW_REQUIRED_LABEL || undefined,
+    skipLabel: skipLabel || undefined,
+    deployDrafts: process.env.PREVIEW_DRAFTS === 'true',
+  };
+}
+
+function sameLabel(a: string | undefined, b: string | undefined): boolean {
+  return Boolean(a && b && a.toLowerCase() === b.toLowerCase());
+}
+
+function hasLabel(pr: PolicyPullRequest, label: string | undefined): boolean {
+  return (pr.labels ?? []).some(l => sameLabel(l.name, label));
+}
+
+/**
+ * Why the PR must not be deployed right now, or undefined if it may be.
+ */
+export function previewBlockedReason(pr: PolicyPullRequest, policy: PreviewPolicy = previewPolicy()): string | undefined {
+  if (policy.skipLabel && hasLabel(pr, policy.skipLabel)) return `labelled ${policy.skipLabel}`;
+  if (policy.requiredLabel && !hasLabel(pr, policy.requiredLabel)) return `missing the ${policy.requiredLabel} label`;
+  if (pr.draft && !policy.deployDrafts) return 'draft';
+  return undefined;
+}
+
+/**
+ * What a `labeled` or `unlabeled` event means for the preview. `pr` already
+ * reflects the change. Labels the policy doesn't care about change nothing.
+ */
+export function labelChangeEffect(
+  action: 'labeled' | 'unlabeled',
+  label: string | undefined,
+  pr: PolicyPullRequest,
+  policy: PreviewPolicy = previewPolicy()
+): 'deploy' | 'destroy' | undefined {
+  const opensGate = (action === 'labeled' && sameLabel(label, policy.requiredLabel))
+    || (action === 'unlabeled' && sameLabel(label, policy.skipLabel));
+  const closesGate = (action === 'unlabeled' && sameLabel(label, policy.requiredLabel))
+    || (action === 'labeled' && sameLabel(label, policy.skipLabel));
+
+  if (closesGate) return 'destroy';
+  if (opensGate && !previewBlockedReason(pr, policy)) return 'deploy';
+  return undefined;
+}
+
+/**
+ * How PRs from forks are handled: `refuse` never deploys them, `approve`
+ * waits for a collaborator's `/envzilla approve` on each new commit, and
+ * `sandbox` builds them in the sandbox profile.
+ */
+export type ForkPolicy = 'refuse' | 'approve' | 'sandbox';
+
+const FORK_POLICIES: ForkPolicy[] = ['refuse', 'approve', 'sandbox'];
+
+export function forkPolicy(): ForkPolicy {
+  const value = (process.env.FORK_PR_POLICY || 'approve').toLowerCase() as ForkPolicy;
+  // Fall back to the safe default rather than building untrusted code
+  return FORK_POLICIES.includes(value) ? value : 'approve';
+}
+
+/**
+ * Whether a PR's head lives in another repository than its base. A deleted
+ * head repository counts as a fork.
+ */
+export function isForkPR(headRepoFullName: string | undefined, baseRepoFullName: string): boolean {
+  return !headRepoFullName || headRepoFullName.toLowerCase() !== baseRepoFullName.toLowerCase();
+}
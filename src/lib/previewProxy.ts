@@ -0,0 +1,208 @@
+import http from 'http';
+import net from 'net';
+import logger from '../utils/logger.js';
+import { DeploymentKey, parseDeploymentKey } from './deploymentKey.js';
+import { getRoutePort, listRoutedDeployments } from './previewRouter.js';
+import { authorizeRequest, getPreviewAccess, isRequestAuthorized } from './previewAccess.js';
+
+/**
+ * Built-in reverse proxy serving every preview on its own subdomain,
+ * `pr-<n>.<repo>.<PREVIEW_DOMAIN>`, chosen by the Host header. One wildcard
+ * DNS entry (or one tunnel) pointing at PROXY_PORT covers all previews, and
+ * URLs stay the same across rebuilds. Requests go to the deployment's stable
+ * route (see previewRouter.ts), so redeploys need no proxy changes. Previews
+ * with an `access` setting are only served to authenticated visitors (see
+ * previewAccess.ts).
+ */
+
+export interface PreviewProxyConfig {
+  port: number;
+  // Wildcard domain previews are served under, e.g. previews.example.com
+  domain: string;
+  // Scheme of the public URLs (TLS is terminated in front of the proxy)
+  scheme: string;
+}
+
+// Headers that describe one connection and must not be forwarded
+const HOP_BY_HOP = ['connection', 'keep-alive', 'proxy-authenticate', 'proxy-authorization', 'te', 'trailer', 'transfer-encoding', 'upgrade'];
+
+// Headers the access check may have changed, replayed from `req.headers`
+const REWRITTEN = ['cookie', 'authorization'];
+
+let server: http.Server | undefined;
+
+/**
+ * The proxy settings, or undefined when PROXY_PORT or PREVIEW_DOMAIN isn't
+ * set. Read on each call so values from .env apply.
+ */
+export function previewProxyConfig(): PreviewProxyConfig | undefined {
+  const port = Number(process.env.PROXY_PORT);
+  const domain = (process.env.PREVIEW_DOMAIN || '').trim().toLowerCase().replace(/^\*?\.|\.$/g, '');
+  if (!Number.isInteger(port) || port <= 0 || !domain) return undefined;
+  return { port, domain, scheme: process.env.PREVIEW_URL_SCHEME || 'https' };
+}
+
+function dnsLabel(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9-]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 63) || 'repo';
+}
+
+export function previewHostname(key: DeploymentKey, domain: string): string {
+  const { repo, prNumber } = parseDeploymentKey(key);
+  return `pr-${prNumber}.${dnsLabel(repo)}.${domain}`;
+}
+
+/**
+ * Public URL of a preview through the proxy, or undefined if it's disabled.
+ */
+export function previewProxyUrl(key: DeploymentKey): string | undefined {
+  const config = previewProxyConfig();
+  return config ? `${config.scheme}://${previewHostname(key, config.domain)}` : undefined;
+}
+
+/**
+ * Deployments a Host header refers to. More than one means two repositories
+ * with the same name have the same PR number deployed.
+ */
+function deploymentsForHost(host: string | undefined, domain: string): DeploymentKey[] {
+  const hostname = (host || '').toLowerCase().replace(/:\d+$/, '').replace(/\.$/, '');
+  if (!hostname.endsWith(`.${domain}`)) return [];
+  return listRoutedDeployments().filter(key => previewHostname(key, domain) === hostname);
+}
+
+/**
+ * Route port for the request's host, or an HTTP status explaining why not.
+ */
+function resolveTarget(req: http.IncomingMessage, domain: string): { key: DeploymentKey; port: number } | { status: number; message: string } {
+  const keys = deploymentsForHost(req.headers.host, domain);
+  if (keys.length > 1) {
+    logger.warn({ host: req.headers.host, deployments: keys }, 'Preview host matches more than one deployment');
+    return { status: 421, message: 'This host name matches more than one preview.' };
+  }
+  const port = keys[0] ? getRoutePort(keys[0]) : undefined;
+  if (!port) return { status: 404, message: 'There is no running preview at this address.' };
+  return { key: keys[0], port };
+}
+
+function forwardedHeaders(req: http.IncomingMessage): Record<string, string> {
+  const remote = req.socket.remoteAddress || '';
+  const forwardedFor = req.headers['x-forwarded-for'];
+  return {
+    'x-forwarded-for': forwardedFor ? `${forwardedFor}, ${remote}` : remote,
+    'x-forwarded-host': req.headers.host || '',
+    'x-forwarded-proto': String(req.headers['x-forwarded-proto'] || 'http'),
+  };
+}
+
+function withoutHopByHop(headers: http.IncomingHttpHeaders): http.OutgoingHttpHeaders {
+  const result: http.OutgoingHttpHeaders = { ...headers };
+  for (const name of HOP_BY_HOP) delete result[name];
+  return result;
+}
+
+async function proxyRequest(req: http.IncomingMessage, res: http.ServerResponse, domain: string): Promise<void> {
+  const target = resolveTarget(req, domain);
+  if ('status' in target) {
+    res.writeHead(target.status, { 'Content-Type': 'text/plain; charset=utf-8' });
+    res.end(target.message + '\n');
+    return;
+  }
+  const access = getPreviewAccess(target.key);
+  if (access && !(await authorizeRequest(req, res, target.key, access, previewProxyUrl(target.key)!))) return;
+
+  const upstream = http.request({
+    host: '127.0.0.1',
+    port: target.port,
+    method: req.method,
+    path: req.url,
+    headers: { ...withoutHopByHop(req.headers), ...forwardedHeaders(req) },
+  }, response => {
+    res.writeHead(response.statusCode || 502, response.statusMessage, withoutHopByHop(response.headers));
+    response.pipe(res);
+  });
+
+  upstream.on('error', err => {
+    logger.debug({ host: req.headers.host, err: err.message }, 'Preview proxy upstream error');
+    if (res.headersSent) {
+      res.destroy();
+    } else {
+      res.writeHead(502, { 'Content-Type': 'text/plain; charset=utf-8' });
+      res.end('The preview is not responding.\n');
+    }
+  });
+  res.on('close', () => upstream.destroy());
+  req.pipe(upstream);
+}
+
+function rejectUpgrade(socket: net.Socket, status: number): void {
+  socket.end(`HTTP/1.1 ${status} ${http.STATUS_CODES[status]}\r\nConnection: close\r\n\r\n`);
+}
+
+/**
+ * Pass a WebSocket (or other) upgrade through as raw bytes once the request
+ * head has been replayed to the route.
+ */
+async function proxyUpgrade(req: http.IncomingMessage, socket: net.Socket, head: Buffer, domain: string): Promise<void> {
+  const target = resolveTarget(req, domain);
+  if ('status' in target) return rejectUpgrade(socket, target.status);
+  // Upgrades can't follow a sign-in redirect; the page has to be opened first
+  const access = getPreviewAccess(target.key);
+  if (access && !(await isRequestAuthorized(req, target.key, access))) return rejectUpgrade(socket, 401);
+
+  const upstream = net.connect(target.port, '127.0.0.1', () => {
+    const lines = [`${req.method} ${req.url} HTTP/${req.httpVersion}`];
+    for (let i = 0; i < req.rawHeaders.length; i += 2) {
+      const name = req.rawHeaders[i].toLowerCase();
+      if (!name.startsWith('x-forwarded-') && !REWRITTEN.includes(name)) lines.push(`${req.rawHeaders[i]}: ${req.rawHeaders[i + 1]}`);
+    }
+    // As left by the access check
+    for (const name of REWRITTEN) {
+      if (req.headers[name]) lines.push(`${name}: ${req.headers[name]}`);
+    }
+    for (const [name, value] of Object.entries(forwardedHeaders(req))) lines.push(`${name}: ${value}`);
+    upstream.write(lines.join('\r\n') + '\r\n\r\n');
+    if (head.length > 0) upstream.write(head);
+    socket.pipe(upstream).pipe(socket);
+  });
+
+  const close = () => { socket.destroy(); upstream.destroy(); };
+  socket.on('error', close);
+  socket.on('close', close);
+  upstream.on('error', err => {
+    logger.debug({ host: req.headers.host, err: err.message }, 'Preview proxy upgrade error');
+    close();
+  });
+  upstream.on('close', close);
+}
+
+/**
+ * Start the proxy if PROXY_PORT and PREVIEW_DOMAIN are set.
+ */
+export async function startPreviewProxy(): Promise<void> {
+  const config = previewProxyConfig();
+  if (!config || server) return;
+
+  const proxy = http.createServer((req, res) => {
+    proxyRequest(req, res, config.domain).catch((err: any) => {
+      logger.error({ host: req.headers.host, err: err?.message }, 'Preview proxy request failed');
+      if (!res.headersSent) res.writeHead(500);
+      res.end();
+    });
+  });
+  proxy.on('upgrade', (req, socket, head) => {
+    proxyUpgrade(req, socket as net.Socket, head, config.domain).catch((err: any) => {
+      logger.error({ host: req.headers.host, err: err?.message }, 'Preview proxy upgrade failed');
+      socket.destroy();
+    });
+  });
+  proxy.on('clientError', (_err, socket) => socket.destroy());
+
+  await new Promise<void>((resolve, reject) => {
+    proxy.once('error', reject);
+    proxy.listen(config.port, () => {
+      proxy.off('error', reject);
+      resolve();
+    });
+  });
+  server = proxy;
+  logger.info({ port: config.port, domain: config.domain }, `🌐 Preview proxy serving *.${config.domain}`);
+}
@@ -0,0 +1,110 @@
+import net from 'net';
+import logger from '../utils/logger.js';
+import { DeploymentKey } from './deploymentKey.js';
+import { findFreePort } from './buildContainer.js';
+
+interface Route {
+  server: net.Server;
+  port: number;
+  targetHost: string;
+  targetPort: number;
+  sockets: Set<net.Socket>;
+}
+
+// One stable local port per deployment. Tunnels point here rather than at a
+// container, so a redeploy only has to retarget the route.
+const routes = new Map<DeploymentKey, Route>();
+
+const LISTEN_ATTEMPTS = 5;
+
+function listen(server: net.Server, port: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onError = (err: Error) => { server.off('listening', onListening); reject(err); };
+    const onListening = () => { server.off('error', onError); resolve(); };
+    server.once('error', onError);
+    server.once('listening', onListening);
+    server.listen(port, '127.0.0.1');
+  });
+}
+
+async function createRoute(key: DeploymentKey, targetHost: string, targetPort: number): Promise<Route> {
+  for (let attempt = 1; ; attempt++) {
+    const port = await findFreePort();
+    const route: Route = { server: net.createServer(), port, targetHost, targetPort, sockets: new Set() };
+
+    // Read the target per connection so retargeting takes effect immediately
+    route.server.on('connection', client => {
+      const upstream = net.connect(route.targetPort, route.targetHost);
+      route.sockets.add(client).add(upstream);
+      client.pipe(upstream).pipe(client);
+      const close = () => { client.destroy(); upstream.destroy(); };
+      client.on('close', () => { route.sockets.delete(client); close(); });
+      upstream.on('close', () => { route.sockets.delete(upstream); close(); });
+      client.on('error', close);
+      upstream.on('error', err => {
+        logger.debug({ deployment: key, targetPort: route.targetPort, err: err.message }, 'Preview route upstream error');
+        close();
+      });
+    });
+
+    try {
+      await listen(route.server, port);
+      return route;
+    } catch (err: any) {
+      // Another process grabbed the port between the check and listen()
+      if (err?.code !== 'EADDRINUSE' || attempt >= LISTEN_ATTEMPTS) throw err;
+    }
+  }
+}
+
+/**
+ * Send the deployment's traffic to `targetPort` (a container's host port, or
+ * for a sandboxed container its port at `targetHost`), creating its stable
+ * route on first use. Returns the stable port.
+ *
+ * New connections go to the new target straight away; connections that are
+ * already open keep flowing to the old container until it is stopped.
+ */
+export async function routeDeployment(key: DeploymentKey, targetPort: number, targetHost = '127.0.0.1'): Promise<number> {
+  const existing = routes.get(key);
+  if (existing) {
+    const previousPort = existing.targetPort;
+    existing.targetHost = targetHost;
+    existing.targetPort = targetPort;
+    logger.info({ deployment: key, port: existing.port, previousPort, targetHost, targetPort }, '🔀 Switched preview route to new container');
+    return existing.port;
+  }
+
+  const route = await createRoute(key, targetHost, targetPort);
+  routes.set(key, route);
+  logger.info({ deployment: key, port: route.port, targetHost, targetPort }, '🔀 Preview route listening');
+  return route.port;
+}
+
+/**
+ * Stable port for a deployment, if it has a route.
+ */
+export function getRoutePort(key: DeploymentKey): number | undefined {
+  return routes.get(key)?.port;
+}
+
+/**
+ * Deployments that currently have a route.
+ */
+export function listRoutedDeployments(): DeploymentKey[] {
+  return Array.from(routes.keys());
+}
+
+export async function removeRoute(key: DeploymentKey): Promise<void> {
+  const route = routes.get(key);
+  if (!route) return;
+  routes.delete(key);
+  const closed = new Promise<void>(resolve => route.server.close(() => resolve()));
+  for (const socket of route.sockets) socket.destroy();
+  await closed;
+  logger.info({ deployment: key, port: route.port }, '🛑 Preview route closed');
+}
+
+export async function removeAllRoutes(): Promise<void> {
+  await Promise.all(Array.from(routes.keys()).map(key => removeRoute(key)));
+}
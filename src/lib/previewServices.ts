@@ -0,0 +1,362 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import logger from '../utils/logger.js';
+import { runCommand, lastErrorLine, throwIfCancelled, asStepError, CommandOutputHandler } from './buildContainer.js';
+import { DeploymentKey, dockerSafeId } from './deploymentKey.js';
+import { ContainerProfile, containerProfileArgs } from './containerProfile.js';
+import type { ServiceConfig } from './repoConfig.js';
+
+/**
+ * Backing services (databases, caches) declared in `.envzilla.yml`. Each PR
+ * gets its own Docker network with the services on it; the app container
+ * joins that network and reaches them by a per-instance hostname. Services outlive
+ * individual builds. When a service's configuration changes, a new instance
+ * starts next to the one the live preview uses, and the old one is only
+ * removed once the new build is live (see retireStaleServices).
+ */
+
+export type ServiceType = 'postgres' | 'redis';
+
+interface ServiceTypeDefaults {
+  image: string;
+  urlVariable: string;
+  // Whether `seed` is supported
+  seedable: boolean;
+}
+
+export const SERVICE_TYPES: Record<ServiceType, ServiceTypeDefaults> = {
+  postgres: { image: 'postgres:16-alpine', urlVariable: 'DATABASE_URL', seedable: true },
+  redis: { image: 'redis:7-alpine', urlVariable: 'REDIS_URL', seedable: false },
+};
+
+// Postgres user and database created for every preview
+const POSTGRES_USER = 'preview';
+const POSTGRES_DB = 'preview';
+
+const READY_ATTEMPTS = 30;
+const READY_DELAY_MS = 2000;
+const MAX_SEED_BYTES = 10 * 1024 * 1024;
+
+// Capabilities the official images' entrypoints need to take over their data
+// directory and switch to their own user
+const SERVICE_CAPABILITIES = ['CHOWN', 'DAC_OVERRIDE', 'FOWNER', 'SETGID', 'SETUID'];
+
+export interface StartedServices {
+  // Network the app container must join
+  network: string;
+  // Connection strings for the app, by variable name
+  env: Record<string, string>;
+  // Names of the service containers this build uses
+  containers: string[];
+}
+
+export interface StartServicesOptions {
+  // Create the network `--internal` (no egress), for sandboxed previews
+  internal?: boolean;
+  // Profile of the app container; its limits apply to the services too
+  profile?: ContainerProfile;
+  signal?: AbortSignal;
+  onOutput?: CommandOutputHandler;
+}
+
+export function serviceNetworkFor(key: DeploymentKey): string {
+  return `envzilla-net-${dockerSafeId(key)}`;
+}
+
+function serviceContainerName(key: DeploymentKey, name: string): string {
+  return `envzilla-svc-${dockerSafeId(key)}-${name}`;
+}
+
+function serviceHostname(service: ServiceConfig, hash: string): string {
+  return `${service.name}-${hash.slice(0, 8)}`;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function docker(args: string[], options: StartServicesOptions = {}, timeoutMs = 60_000) {
+  return runCommand('docker', args, { timeoutMs, signal: options.signal, onOutput: options.onOutput });
+}
+
+/**
+ * Seed file inside the checkout. Symlinks pointing out of it are refused so a
+ * PR can't copy host files into its database.
+ */
+async function resolveSeedFile(repoPath: string, seed: string): Promise<string> {
+  const root = await fs.promises.realpath(repoPath);
+  let file: string;
+  try {
+    file = await fs.promises.realpath(path.join(root, seed));
+  } catch {
+    throw new Error(`Seed file not found: ${seed}`);
+  }
+  const rel = path.relative(root, file);
+  if (rel.startsWith('..') || path.isAbsolute(rel)) throw new Error(`Seed file must be inside the repository: ${seed}`);
+
+  const stat = await fs.promises.stat(file);
+  if (!stat.isFile()) throw new Error(`Seed file is not a regular file: ${seed}`);
+  if (stat.size > MAX_SEED_BYTES) throw new Error(`Seed file is larger than ${MAX_SEED_BYTES} bytes: ${seed}`);
+  return file;
+}
+
+/**
+ * Hash of everything that requires recreating a service when it changes.
+ */
+async function configHash(service: ServiceConfig, seedFile: string | undefined, profileArgs: string[]): Promise<string> {
+  const hash = crypto.createHash('sha256').update(JSON.stringify([service.type, service.image, profileArgs]));
+  if (seedFile) hash.update(await fs.promises.readFile(seedFile));
+  return hash.digest('hex').slice(0, 16);
+}
+
+/**
+ * Whether the network is `--internal`, or undefined if it doesn't exist.
+ */
+async function isInternalNetwork(network: string, options: StartServicesOptions): Promise<boolean | undefined> {
+  const { exitCode, stdout } = await docker(['network', 'inspect', '--format', '{{.Internal}}', network], options);
+  return exitCode === 0 ? stdout.trim() === 'true' : undefined;
+}
+
+/**
+ * Create the PR's network, recreating it (and its services) if it exists
+ * with the wrong isolation, e.g. after FORK_PR_POLICY changed.
+ */
+async function ensureNetwork(key: DeploymentKey, internal: boolean, options: StartServicesOptions): Promise<string> {
+  const network = serviceNetworkFor(key);
+  let current = await isInternalNetwork(network, options);
+
+  if (current !== undefined && current !== internal) {
+    logger.info({ deployment: key, network, internal }, 'Recreating service network with different isolation');
+    // The previous app container may still be attached
+    const { stdout } = await docker(['network', 'inspect', '--format', '{{range $id, $c := .Containers}}{{$id}} {{end}}', network], options);
+    for (const id of stdout.trim().split(/\s+/).filter(Boolean)) {
+      await docker(['network', 'disconnect', '-f', network, id], options);
+    }
+    await destroyPreviewServices(key);
+    current = await isInternalNetwork(network, options);
+  }
+
+  if (current === undefined) {
+    const args = ['network', 'create', ...(internal ? ['--internal'] : []), '--label', `envzilla.service-of=${key}`, network];
+    const { exitCode, stderr } = await docker(args, options);
+    // Another build may have created it in the meantime
+    if (exitCode !== 0 && !/already exists/i.test(stderr)) {
+      throw new Error(`Failed to create service network: ${lastErrorLine(stderr)}`);
+    }
+    current = await isInternalNetwork(network, options);
+  }
+
+  // Never let a sandboxed preview onto a network with egress
+  if (current !== internal) throw new Error(`Service network ${network} exists with different isolation and could not be replaced`);
+  return network;
+}
+
+interface ServiceContainer {
+  id: string;
+  // Service name from .envzilla.yml
+  name: string;
+  hash: string;
+  containerName: string;
+}
+
+/**
+ * The service containers of a deployment.
+ */
+async function listServiceContainers(key: DeploymentKey): Promise<ServiceContainer[]> {
+  const { exitCode, stdout, stderr } = await runCommand('docker', [
+    'ps', '-a',
+    '--filter', `label=envzilla.service-of=${key}`,
+    '--format', '{{.ID}}\t{{.Label "envzilla.service"}}\t{{.Label "envzilla.service-config"}}\t{{.Names}}'
+  ], { timeoutMs: 30_000 });
+  if (exitCode !== 0) throw new Error(`Failed to list service containers: ${lastErrorLine(stderr)}`);
+  return stdout.trim().split('\n').filter(Boolean).map(line => {
+    const [id, name, hash, containerName] = line.split('\t');
+    return { id, name, hash, containerName };
+  });
+}
+
+/**
+ * `docker run` flags applying the app's profile to a service: its resource
+ * limits, dropped capabilities (except those the image needs) and
+ * no-new-privileges. The images manage their own user and data directory,
+ * so the read-only and user settings don't apply.
+ */
+function serviceProfileArgs(profile: ContainerProfile | undefined): string[] {
+  if (!profile) return [];
+  const capDrop = profile.capDrop.filter(cap => !SERVICE_CAPABILITIES.includes(cap));
+  const args = containerProfileArgs({ ...profile, capDrop, readOnly: false, user: undefined });
+  if (capDrop.includes('ALL')) {
+    for (const cap of SERVICE_CAPABILITIES) args.push('--cap-add', cap);
+  }
+  return args;
+}
+
+async function inspectService(containerName: string): Promise<{ running: boolean; hash?: string; env: string[] } | undefined> {
+  const { exitCode, stdout } = await runCommand('docker', ['inspect', containerName], { timeoutMs: 30_000 });
+  if (exitCode !== 0) return undefined;
+  const [info] = JSON.parse(stdout);
+  return {
+    running: Boolean(info?.State?.Running),
+    hash: info?.Config?.Labels?.['envzilla.service-config'],
+    env: info?.Config?.Env || [],
+  };
+}
+
+function runArgs(key: DeploymentKey, service: ServiceConfig, containerName: string, network: string, hash: string, password: string, profileArgs: string[]): string[] {
+  const args = [
+    'run', '-d',
+    '--name', containerName,
+    '--network', network,
+    // Hostname the app reaches this instance at (container names can be too
+    // long for DNS)
+    '--network-alias', serviceHostname(service, hash),
+    '--label', `envzilla.service-of=${key}`,
+    '--label', `envzilla.service=${service.name}`,
+    '--label', `envzilla.service-config=${hash}`,
+    ...profileArgs,
+  ];
+  if (service.type === 'postgres') {
+    args.push('-e', `POSTGRES_USER=${POSTGRES_USER}`, '-e', `POSTGRES_PASSWORD=${password}`, '-e', `POSTGRES_DB=${POSTGRES_DB}`, service.image);
+  } else {
+    // Nothing is worth persisting in a preview's cache
+    args.push(service.image, 'redis-server', '--save', '', '--appendonly', 'no');
+  }
+  return args;
+}
+
+/**
+ * Wait until the service accepts connections. Postgres is checked over TCP
+ * because its entrypoint runs init scripts on a socket-only server first.
+ */
+async function waitUntilReady(containerName: string, service: ServiceConfig, options: StartServicesOptions): Promise<void> {
+  const probe = service.type === 'postgres'
+    ? ['pg_isready', '-h', '127.0.0.1', '-U', POSTGRES_USER, '-d', POSTGRES_DB]
+    : ['redis-cli', 'ping'];
+
+  for (let attempt = 1; attempt <= READY_ATTEMPTS; attempt++) {
+    throwIfCancelled(options.signal);
+    const { exitCode } = await runCommand('docker', ['exec', containerName, ...probe], { timeoutMs: 10_000, signal: options.signal });
+    if (exitCode === 0) return;
+    await delay(READY_DELAY_MS);
+  }
+  throw new Error(`Service ${service.name} did not become ready after ${READY_ATTEMPTS * READY_DELAY_MS / 1000}s`);
+}
+
+async function seedDatabase(containerName: string, service: ServiceConfig, seedFile: string, options: StartServicesOptions): Promise<void> {
+  const target = '/tmp/envzilla-seed.sql';
+  const copy = await docker(['cp', seedFile, `${containerName}:${target}`], options);
+  if (copy.exitCode !== 0) throw new Error(`Failed to copy seed file: ${lastErrorLine(copy.stderr)}`);
+
+  const run = await docker(['exec', containerName, 'psql', '-v', 'ON_ERROR_STOP=1', '-U', POSTGRES_USER, '-d', POSTGRES_DB, '-f', target], options, 5 * 60_000);
+  if (run.exitCode !== 0) throw new Error(`Seeding ${service.name} from ${service.seed} failed: ${lastErrorLine(run.stderr)}`);
+}
+
+function connectionUrl(service: ServiceConfig, password: string, host: string): string {
+  return service.type === 'postgres'
+    ? `postgres://${POSTGRES_USER}:${password}@${host}:5432/${POSTGRES_DB}`
+    : `redis://${host}:6379`;
+}
+
+/**
+ * Start (or reuse) the deployment's services and return what the app
+ * container needs to reach them. Instances the live preview still uses are
+ * left running; call retireStaleServices once the new build is live.
+ */
+export async function startPreviewServices(
+  key: DeploymentKey,
+  repoPath: string,
+  services: ServiceConfig[],
+  options: StartServicesOptions = {}
+): Promise<StartedServices> {
+  try {
+    const network = await ensureNetwork(key, Boolean(options.internal), options);
+    const profileArgs = serviceProfileArgs(options.profile);
+    const current = await listServiceContainers(key);
+
+    const env: Record<string, string> = {};
+    const containers: string[] = [];
+    for (const service of services) {
+      throwIfCancelled(options.signal);
+      const seedFile = service.seed ? await resolveSeedFile(repoPath, service.seed) : undefined;
+      const hash = await configHash(service, seedFile, profileArgs);
+
+      const match = current.find(c => c.name === service.name && c.hash === hash);
+      const existing = match && await inspectService(match.containerName);
+      let password = existing?.env.find(pair => pair.startsWith('POSTGRES_PASSWORD='))?.slice('POSTGRES_PASSWORD='.length);
+      let containerName: string;
+
+      if (match && existing && (service.type !== 'postgres' || password)) {
+        containerName = match.containerName;
+        if (!existing.running) await docker(['start', containerName], options);
+        await waitUntilReady(containerName, service, options);
+        logger.info({ deployment: key, service: service.name }, '♻️ Reusing preview service');
+      } else {
+        // Named after its configuration, so it can run next to the instance
+        // the live preview uses
+        containerName = `${serviceContainerName(key, service.name)}-${hash.slice(0, 8)}`;
+        await docker(['rm', '-f', '-v', containerName], options);
+        password = crypto.randomBytes(18).toString('hex');
+
+        const { exitCode, stderr } = await docker(runArgs(key, service, containerName, network, hash, password, profileArgs), options, 5 * 60_000);
+        if (exitCode !== 0) throw new Error(`Failed to start service ${service.name}: ${lastErrorLine(stderr)}`);
+        await waitUntilReady(containerName, service, options);
+        if (seedFile) await seedDatabase(containerName, service, seedFile, options);
+        logger.info({ deployment: key, service: service.name, image: service.image }, '🗄️ Started preview service');
+      }
+
+      containers.push(containerName);
+      env[service.urlVariable] = connectionUrl(service, password ?? '', serviceHostname(service, hash));
+    }
+
+    return { network, env, containers };
+  } catch (error) {
+    throw asStepError('services', error);
+  }
+}
+
+/**
+ * Remove the service containers (with their volumes) a deployment no longer
+ * uses, once the build using `keep` is live.
+ */
+export async function retireStaleServices(key: DeploymentKey, keep: string[]): Promise<void> {
+  try {
+    for (const container of await listServiceContainers(key)) {
+      if (keep.includes(container.containerName)) continue;
+      logger.info({ deployment: key, service: container.name, container: container.containerName }, '♻️ Retiring previous preview service');
+      await runCommand('docker', ['rm', '-f', '-v', container.id], { timeoutMs: 60_000 });
+    }
+  } catch (error: any) {
+    logger.warn({ deployment: key, error: error.message }, 'Failed to retire previous preview services');
+  }
+}
+
+/**
+ * Remove a deployment's service containers (with their volumes) and its
+ * network. Call after the app containers are gone, or the network stays.
+ */
+export async function destroyPreviewServices(key: DeploymentKey): Promise<void> {
+  try {
+    for (const container of await listServiceContainers(key)) {
+      await runCommand('docker', ['rm', '-f', '-v', container.id], { timeoutMs: 60_000 });
+    }
+    const network = serviceNetworkFor(key);
+    const { exitCode, stderr } = await runCommand('docker', ['network', 'rm', network], { timeoutMs: 30_000 });
+    if (exitCode !== 0 && !/not found|no such network/i.test(stderr)) {
+      logger.warn({ deployment: key, network, error: lastErrorLine(stderr) }, 'Failed to remove service network');
+    }
+  } catch (error: any) {
+    logger.warn({ deployment: key, error: error.message }, 'Failed to remove preview services');
+  }
+}
+
+/**
+ * Deployments that have service containers, for startup reconciliation.
+ */
+export async function listServiceDeployments(): Promise<DeploymentKey[]> {
+  const { exitCode, stdout } = await runCommand('docker', [
+    'ps', '-a', '--filter', 'label=envzilla.service-of', '--format', '{{.Label "envzilla.service-of"}}'
+  ], { timeoutMs: 30_000 });
+  if (exitCode !== 0) return [];
+  return Array.from(new Set(stdout.trim().split('\n').filter(Boolean)));
+}
@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { adoptedExposure } from './reconcileDeployments.js';
+import type { DeploymentInfo } from '../types/webhook.js';
+import type { AccessConfig } from './repoConfig.js';
+
+const ACCESS: AccessConfig = {
+  mode: 'github',
+  username: 'preview',
+  passwordSecret: 'PREVIEW_PASSWORD',
+  allow: 'collaborators',
+  sessionTtlMs: 12 * 60 * 60 * 1000,
+};
+
+function record(access?: AccessConfig): DeploymentInfo {
+  return { containerId: 'abc123', hostPort: 5123, status: 'running', createdAt: Date.now(), access } as DeploymentInfo;
+}
+
+test('adoptedExposure keeps protected previews unexposed without the preview proxy', () => {
+  const exposure = adoptedExposure(record(ACCESS), {}, false);
+  assert.ok(!exposure.expose && /preview proxy/.test(exposure.reason));
+});
+
+test('adoptedExposure serves protected previews through the preview proxy', () => {
+  assert.deepEqual(adoptedExposure(record(ACCESS), {}, true), { expose: true, access: ACCESS });
+});
+
+test('adoptedExposure exposes public previews', () => {
+  assert.deepEqual(adoptedExposure(record(), {}, false), { expose: true, access: undefined });
+  assert.deepEqual(adoptedExposure(undefined, { 'envzilla.access': 'none' }, false), { expose: true });
+});
+
+test('adoptedExposure keeps previews without a record unexposed unless they are labelled public', () => {
+  const labelSets: Record<string, string>[] = [{}, { 'envzilla.access': 'basic' }];
+  for (const labels of labelSets) {
+    for (const proxyConfigured of [false, true]) {
+      assert.equal(adoptedExposure(undefined, labels, proxyConfigured).expose, false);
+    }
+  }
+});
@@ -0,0 +1,241 @@
+import logger from '../utils/logger.js';
+import { DeploymentInfo } from '../types/webhook.js';
+import { getDeploymentStore } from './deploymentStore.js';
+import {
+    listPreviewContainers,
+    inspectPreviewContainer,
+    startContainer,
+    destroyContainer,
+    listPreviewImages,
+    removeImage,
+    PreviewContainerDetails
+} from './destroyContainer.js';
+import { getTunnelProvider } from './tunnelProvider.js';
+import { previewProxyConfig, previewProxyUrl } from './previewProxy.js';
+import { setPreviewAccess } from './previewAccess.js';
+import { routeDeployment } from './previewRouter.js';
+import { listServiceDeployments, destroyPreviewServices } from './previewServices.js';
+import { listComposeProjects, destroyComposeProject, composeProjectFor } from './composePreview.js';
+import { resolveGitHubToken } from './githubAuth.js';
+import { isPullRequestOpen } from './githubClient.js';
+import { DeploymentKey, makeDeploymentKey, parseDeploymentKey } from './deploymentKey.js';
+import type { AccessConfig } from './repoConfig.js';
+
+export interface ReconcileResult {
+    adopted: DeploymentKey[];
+    destroyedContainers: string[];
+    removedImages: string[];
+    droppedRecords: DeploymentKey[];
+}
+
+// Containers created before deployments were keyed by repository were named
+// `preview-<pr>` and carry no labels; they can never be re-adopted.
+const LEGACY_CONTAINER_NAME_PATTERN = /^preview-\d+$/;
+
+/**
+ * Work out which deployment a container belongs to from its labels.
+ */
+function keyFromLabels(labels: Record<string, string>): DeploymentKey | undefined {
+    const repo = labels['envzilla.repo'];
+    const pr = Number(labels['envzilla.pr']);
+    if (!repo || !Number.isInteger(pr)) return undefined;
+    try {
+        return makeDeploymentKey(repo, pr);
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Ask GitHub whether the PR is still open. Returns undefined when that can't be
+ * determined (no credentials, or the API call failed).
+ */
+async function checkPullRequestOpen(key: DeploymentKey, installationId?: number | string): Promise<boolean | undefined> {
+    const { repoFullName, prNumber } = parseDeploymentKey(key);
+    try {
+        const token = await resolveGitHubToken(installationId);
+        if (!token) return undefined;
+        return await isPullRequestOpen(token, repoFullName, prNumber);
+    } catch (error: any) {
+        logger.warn({ deployment: key, error: error.message }, 'Could not determine PR state during reconciliation');
+        return undefined;
+    }
+}
+
+export type AdoptedExposure =
+    | { expose: true; access?: AccessConfig }
+    | { expose: false; reason: string };
+
+/**
+ * Whether an adopted container may be served again, and with which access
+ * setting. Protection is enforced by the preview proxy and the full setting
+ * only lives in the deployment record; without either, a preview that is (or
+ * may be) protected stays on localhost until it is rebuilt.
+ */
+export function adoptedExposure(record: DeploymentInfo | undefined, labels: Record<string, string>, proxyConfigured: boolean): AdoptedExposure {
+    if (!record) {
+        return labels['envzilla.access'] === 'none'
+            ? { expose: true }
+            : { expose: false, reason: 'Access setting unknown after server restart; rebuild to expose the preview again' };
+    }
+    if (record.access && !proxyConfigured) {
+        return { expose: false, reason: 'Access protection needs the built-in preview proxy (PROXY_PORT and PREVIEW_DOMAIN); rebuild once it is configured' };
+    }
+    return { expose: true, access: record.access };
+}
+
+/**
+ * Bring a surviving container back under management: make sure it is running,
+ * restart its tunnel and write a fresh deployment record. Previews that can't
+ * be protected are adopted without a route or tunnel (see adoptedExposure).
+ */
+async function adoptContainer(key: DeploymentKey, details: PreviewContainerDetails, record: DeploymentInfo | undefined): Promise<boolean> {
+    if (!details.running && !(await startContainer(details.id))) return false;
+
+    const live = details.running ? details : await inspectPreviewContainer(details.id);
+    if (!live?.hostPort) {
+        logger.warn({ deployment: key, containerId: details.id.substring(0, 12) }, 'Could not recover host port for container');
+        return false;
+    }
+
+    // Routes and tunnel processes die with the server, so the old preview URL is gone.
+    const exposure = adoptedExposure(record, live.labels, previewProxyConfig() !== undefined);
+    let previewUrl: string;
+    if (!exposure.expose) {
+        // Not routed either, since the proxy serves every routed deployment
+        setPreviewAccess(key, record?.access);
+        previewUrl = `http://${live.targetHost ?? '127.0.0.1'}:${live.hostPort}`;
+        logger.warn({ deployment: key, reason: exposure.reason }, 'Adopted container is not exposed');
+    } else {
+        setPreviewAccess(key, exposure.access);
+        const routePort = await routeDeployment(key, live.hostPort, live.targetHost);
+        previewUrl = previewProxyUrl(key) ?? `http://localhost:${routePort}`;
+        if (!previewProxyUrl(key)) {
+            try {
+                const tunnel = await getTunnelProvider().start(key, routePort);
+                previewUrl = tunnel.publicUrl;
+            } catch (error: any) {
+                logger.warn({ deployment: key, error: error.message }, 'Failed to restart tunnel for adopted container; falling back to localhost');
+            }
+        }
+    }
+
+    const installation = live.labels['envzilla.installation'];
+    await getDeploymentStore().set(key, {
+        ...record,
+        containerId: live.id,
+        hostPort: live.hostPort,
+        status: 'running',
+        createdAt: record?.createdAt ?? Date.now(),
+        repoFullName: parseDeploymentKey(key).repoFullName,
+        installationId: record?.installationId ?? (installation ? Number(installation) || installation : undefined),
+        previewUrl,
+        lastError: exposure.expose ? undefined : exposure.reason
+    });
+
+    logger.info({ deployment: key, containerId: live.id.substring(0, 12), hostPort: live.hostPort, previewUrl }, '♻️ Re-adopted preview container');
+    return true;
+}
+
+/**
+ * Compare live Docker state with the deployment store after a restart.
+ *
+ * Containers that still belong to open PRs are re-adopted (recovering their
+ * host port from `docker inspect`), everything else is destroyed, unused
+ * `preview-pr-*` images are removed and records without a container are
+ * dropped, except interrupted builds (marked failed) and fork PRs awaiting
+ * approval.
+ */
+export async function reconcileDeployments(): Promise<ReconcileResult> {
+    const store = getDeploymentStore();
+    const result: ReconcileResult = { adopted: [], destroyedContainers: [], removedImages: [], droppedRecords: [] };
+
+    logger.info('🔁 Reconciling Docker state with tracked deployments');
+
+    const records = await store.list();
+    const isRecorded = (containerId: string) => Array.from(records.values())
+        .some(record => record.containerId?.startsWith(containerId));
+    // A restart in the middle of a redeploy can leave two containers for one
+    // deployment; visit the recorded one first so that is the one adopted.
+    const containers = (await listPreviewContainers())
+        .filter(c => c.name.startsWith('preview-') || c.name.startsWith('envzilla-pr-'))
+        .sort((a, b) => Number(isRecorded(b.id)) - Number(isRecorded(a.id)));
+    const imagesInUse = new Set<string>();
+
+    for (const container of containers) {
+        const details = await inspectPreviewContainer(container.id);
+        const key = details ? keyFromLabels(details.labels) : undefined;
+
+        // Leave alone anything that merely happens to be called preview-*
+        if (!key && !LEGACY_CONTAINER_NAME_PATTERN.test(container.name)) continue;
+
+        let adopted = false;
+        if (details && key && !result.adopted.includes(key)) {
+            const record = records.get(key);
+            const installationId = record?.installationId ?? details.labels['envzilla.installation'];
+            const open = await checkPullRequestOpen(key, installationId);
+
+            // Keep tracked containers unless GitHub says the PR is closed; only
+            // keep untracked ones when GitHub confirms the PR is still open.
+            if (open === true || (open === undefined && record)) {
+                adopted = await adoptContainer(key, details, record);
+            }
+        }
+
+        if (adopted && key) {
+            result.adopted.push(key);
+            imagesInUse.add(container.image);
+            continue;
+        }
+
+        logger.info({ deployment: key, containerId: container.id, name: container.name }, '🧹 Destroying orphaned preview container');
+        const destroyed = await destroyContainer(container.id, key, { destroyImage: false });
+        if (destroyed.success) result.destroyedContainers.push(container.id);
+    }
+
+    for (const [key, record] of records) {
+        if (result.adopted.includes(key)) continue;
+        // Failures stay visible, and fork PRs keep waiting for approval
+        if (record.status === 'failed' || record.status === 'awaiting_approval') continue;
+
+        if (record.status === 'building' || record.status === 'queued') {
+            // The build was interrupted (or never started) because of the
+            // restart; keep the record so the failure is visible until the next
+            // push rebuilds it.
+            const lastError = record.status === 'building' ? 'Build interrupted by server restart' : 'Queued build dropped by server restart';
+            await store.set(key, { ...record, status: 'failed', lastError });
+        } else {
+            await store.delete(key);
+        }
+        result.droppedRecords.push(key);
+    }
+
+    // The other containers of an orphaned compose preview
+    const adoptedProjects = new Set(result.adopted.map(composeProjectFor));
+    for (const project of await listComposeProjects()) {
+        if (adoptedProjects.has(project)) continue;
+        logger.info({ project }, '🧹 Removing orphaned compose project');
+        await destroyComposeProject(project);
+    }
+
+    // Services only live as long as the app container they back
+    for (const key of await listServiceDeployments()) {
+        if (result.adopted.includes(key)) continue;
+        logger.info({ deployment: key }, '🧹 Removing orphaned preview services');
+        await destroyPreviewServices(key);
+    }
+
+    for (const image of await listPreviewImages()) {
+        if (imagesInUse.has(image)) continue;
+        if (await removeImage(image)) result.removedImages.push(image);
+    }
+
+    logger.info({
+        adopted: result.adopted,
+        destroyedContainers: result.destroyedContainers.length,
+        removedImages: result.removedImages.length,
+        droppedRecords: result.droppedRecords
+    }, '✅ Reconciliation completed');
+
+    return result;
+}
@@ -0,0 +1,57 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseAccessConfig, RepoConfigError, resolvePreviewAccess } from './repoConfig.js';
+import type { AccessConfig } from './repoConfig.js';
+
+const ACCESS: AccessConfig = {
+  mode: 'basic',
+  username: 'preview',
+  passwordSecret: 'PREVIEW_PASSWORD',
+  allow: 'collaborators',
+  sessionTtlMs: 12 * 60 * 60 * 1000,
+};
+
+const TOKEN_VARIABLES = ['EPHEMERAL_GITHUB_TOKEN', 'GITHUB_TOKEN'];
+let savedTokens: Record<string, string | undefined>;
+
+beforeEach(() => {
+  savedTokens = Object.fromEntries(TOKEN_VARIABLES.map(name => [name, process.env[name]]));
+  for (const name of TOKEN_VARIABLES) delete process.env[name];
+});
+
+afterEach(() => {
+  for (const [name, value] of Object.entries(savedTokens)) {
+    if (value === undefined) delete process.env[name];
+    else process.env[name] = value;
+  }
+});
+
+test('parseAccessConfig ignores problems outside the access section', () => {
+  const source = [
+    'run:',
+    '  port: not-a-port',
+    'colour: green',
+    'access:',
+    '  mode: signed',
+    '  sessionTtl: 2h',
+  ].join('\n');
+  assert.deepEqual(parseAccessConfig(source), { ...ACCESS, mode: 'signed', sessionTtlMs: 2 * 60 * 60 * 1000 });
+});
+
+test('parseAccessConfig returns undefined when no access is set', () => {
+  assert.equal(parseAccessConfig('run:\n  port: 0\n'), undefined);
+  assert.equal(parseAccessConfig(''), undefined);
+});
+
+test('parseAccessConfig rejects an invalid access section or broken YAML', () => {
+  assert.throws(() => parseAccessConfig('access:\n  mode: nobody\n'), RepoConfigError);
+  assert.throws(() => parseAccessConfig('access: [\n'), /YAML syntax error/);
+});
+
+test('resolvePreviewAccess builds unprotected previews when the default branch can\'t be checked and the branch sets no access', async () => {
+  assert.equal(await resolvePreviewAccess(undefined, 'acme/web'), undefined);
+});
+
+test('resolvePreviewAccess refuses protected previews when the default branch can\'t be checked', async () => {
+  await assert.rejects(resolvePreviewAccess(ACCESS, 'acme/web'), /Could not check the access setting on the default branch: No GitHub token/);
+});
@@ -0,0 +1,525 @@
+import fs from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import logger from '../utils/logger.js';
+import { parseDuration } from '../utils/duration.js';
+import { MEMORY_PATTERN, USER_PATTERN, normalizeCapability } from './containerProfile.js';
+import { SERVICE_TYPES, ServiceType } from './previewServices.js';
+import { ACCESS_MODES, AccessMode, GITHUB_ACCESS_RULES, GitHubAccessRule } from './previewAccess.js';
+import { resolveGitHubToken } from './githubAuth.js';
+import { getRepoFile } from './githubClient.js';
+
+/**
+ * Files EnvZilla looks for at the root of the cloned branch, in order.
+ */
+export const REPO_CONFIG_FILENAMES = ['.envzilla.yml', '.envzilla.yaml'];
+
+const MAX_CONFIG_BYTES = 64 * 1024;
+
+/**
+ * Per-repository preview configuration, read from `.envzilla.yml`.
+ *
+ * ```yaml
+ * build:
+ *   dockerfile: docker/Dockerfile   # relative to the repository root
+ *   context: .                      # relative to the repository root
+ *   args:
+ *     NODE_ENV: production
+ * run:
+ *   port: 8080                      # port the app listens on inside the container
+ *   env:
+ *     FEATURE_FLAGS: preview
+ *   healthCheck:
+ *     path: /healthz
+ *   resources:                      # overrides CONTAINER_CPUS etc.
+ *     cpus: 1
+ *     memory: 512m
+ *     pidsLimit: 256
+ *   security:                       # overrides CONTAINER_READ_ONLY etc.
+ *     readOnly: true
+ *     capDrop: [ALL]
+ *     noNewPrivileges: true
+ *     user: "1000:1000"
+ * services:                         # started next to the app on a private network
+ *   db:                             # also the service's hostname
+ *     type: postgres                # postgres or redis
+ *     image: postgres:16            # defaults to the type's image
+ *     seed: db/seed.sql             # SQL run once when the database is created
+ *     urlVariable: DATABASE_URL     # connection string passed to the app
+ * compose:                          # run a docker compose project instead of
+ *   file: docker-compose.yml        # building `build.dockerfile`
+ *   service: web                    # service whose port is exposed
+ * ttl: 48h                          # destroy the preview after this long
+ * ```
+ */
+export interface RepoConfig {
+  build: {
+    dockerfile: string;
+    context: string;
+    args: Record<string, string>;
+  };
+  run: {
+    port: number;
+    env: Record<string, string>;
+    healthCheck: {
+      path: string;
+    };
+    resources: {
+      cpus?: number;
+      memory?: string;
+      pidsLimit?: number;
+    };
+    security: {
+      readOnly?: boolean;
+      capDrop?: string[];
+      noNewPrivileges?: boolean;
+      user?: string;
+    };
+  };
+  services: ServiceConfig[];
+  // Set when the preview is a docker compose project
+  compose?: ComposeConfig;
+  // Set when the preview is only served to authenticated visitors
+  access?: AccessConfig;
+  ttlMs?: number;
+}
+
+/**
+ * Who may open the preview through the built-in proxy.
+ */
+export interface AccessConfig {
+  mode: AccessMode;
+  // basic: user name, and the stored secret holding the password
+  username: string;
+  passwordSecret: string;
+  // github: who may sign in
+  allow: GitHubAccessRule;
+  // How long a sign-in (github) or signed link visit (signed) lasts
+  sessionTtlMs: number;
+}
+
+export interface ComposeConfig {
+  // Relative to the repository root
+  file: string;
+  // Service that serves the preview on `run.port`
+  service: string;
+}
+
+/**
+ * A backing service from `.envzilla.yml`, with the type's defaults applied.
+ */
+export interface ServiceConfig {
+  name: string;
+  type: ServiceType;
+  image: string;
+  // Relative to the repository root
+  seed?: string;
+  urlVariable: string;
+}
+
+const MAX_SERVICES = 5;
+const SERVICE_NAME_PATTERN = /^[a-z][a-z0-9-]{0,30}$/;
+const IMAGE_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._\/:@-]*$/;
+const VARIABLE_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Raised when `.envzilla.yml` can't be parsed or fails validation. `issues`
+ * holds one human-readable message per problem so they can be reported back
+ * to the pull request.
+ */
+export class RepoConfigError extends Error {
+  constructor(public readonly fileName: string, public readonly issues: string[]) {
+    super(`Invalid ${fileName}: ${issues.join('; ')}`);
+    this.name = 'RepoConfigError';
+  }
+}
+
+export function defaultRepoConfig(): RepoConfig {
+  return {
+    build: { dockerfile: 'Dockerfile', context: '.', args: {} },
+    run: { port: 3000, env: {}, healthCheck: { path: '/' }, resources: {}, security: {} },
+    services: [],
+  };
+}
+
+type Issues = string[];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check that `value` is an object and only contains `allowed` keys.
+ */
+function readSection(value: unknown, where: string, allowed: string[], issues: Issues): Record<string, unknown> | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!isPlainObject(value)) {
+    issues.push(`${where} must be a mapping`);
+    return undefined;
+  }
+  for (const key of Object.keys(value)) {
+    if (!allowed.includes(key)) issues.push(`${where}.${key} is not a recognised option`);
+  }
+  return value;
+}
+
+/**
+ * Relative path that must stay inside the checkout.
+ */
+function readRepoPath(value: unknown, where: string, issues: Issues): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string' || !value.trim()) {
+    issues.push(`${where} must be a non-empty string`);
+    return undefined;
+  }
+  const normalized = path.posix.normalize(value.trim().replace(/\\/g, '/'));
+  if (path.posix.isAbsolute(normalized) || normalized === '..' || normalized.startsWith('../')) {
+    issues.push(`${where} must be a path inside the repository`);
+    return undefined;
+  }
+  return normalized;
+}
+
+/**
+ * Map of string → scalar; numbers and booleans are converted to strings.
+ */
+function readStringMap(value: unknown, where: string, issues: Issues, keyPattern = /^[A-Za-z_][A-Za-z0-9_]*$/): Record<string, string> | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!isPlainObject(value)) {
+    issues.push(`${where} must be a mapping of NAME: value`);
+    return undefined;
+  }
+  const result: Record<string, string> = {};
+  for (const [key, v] of Object.entries(value)) {
+    if (!keyPattern.test(key)) {
+      issues.push(`${where}.${key} is not a valid variable name`);
+    } else if (typeof v === 'string' || typeof v === 'number' || typeof v === 'boolean') {
+      result[key] = String(v);
+    } else {
+      issues.push(`${where}.${key} must be a string, number or boolean`);
+    }
+  }
+  return result;
+}
+
+function readPort(value: unknown, where: string, issues: Issues): number | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > 65535) {
+    issues.push(`${where} must be an integer between 1 and 65535`);
+    return undefined;
+  }
+  return value;
+}
+
+function readServices(services: Record<string, unknown>, issues: Issues): ServiceConfig[] {
+  const result: ServiceConfig[] = [];
+  for (const [name, value] of Object.entries(services)) {
+    const where = `services.${name}`;
+    if (!SERVICE_NAME_PATTERN.test(name)) {
+      issues.push(`${where}: service names must be lowercase letters, digits and dashes`);
+      continue;
+    }
+    if (!isPlainObject(value)) {
+      issues.push(`${where} must be a mapping`);
+      continue;
+    }
+    const service = readSection(value, where, ['type', 'image', 'seed', 'urlVariable'], issues)!;
+    if (typeof service.type !== 'string' || !(service.type in SERVICE_TYPES)) {
+      issues.push(`${where}.type must be one of ${Object.keys(SERVICE_TYPES).join(', ')}`);
+      continue;
+    }
+    const type = service.type as ServiceType;
+    const defaults = SERVICE_TYPES[type];
+
+    if (service.image !== undefined && (typeof service.image !== 'string' || !IMAGE_PATTERN.test(service.image))) {
+      issues.push(`${where}.image must be an image reference such as ${defaults.image}`);
+    }
+    if (service.urlVariable !== undefined && (typeof service.urlVariable !== 'string' || !VARIABLE_PATTERN.test(service.urlVariable))) {
+      issues.push(`${where}.urlVariable is not a valid variable name`);
+    }
+    if (service.seed !== undefined && !defaults.seedable) {
+      issues.push(`${where}.seed is not supported for ${type} services`);
+    }
+
+    result.push({
+      name,
+      type,
+      image: typeof service.image === 'string' ? service.image : defaults.image,
+      seed: readRepoPath(service.seed, `${where}.seed`, issues),
+      urlVariable: typeof service.urlVariable === 'string' ? service.urlVariable : defaults.urlVariable,
+    });
+  }
+
+  const seen = new Set<string>();
+  for (const service of result) {
+    if (seen.has(service.urlVariable)) {
+      issues.push(`services.${service.name}: ${service.urlVariable} is already used by another service; set urlVariable`);
+    }
+    seen.add(service.urlVariable);
+  }
+  return result;
+}
+
+function readAccess(value: unknown, issues: Issues): AccessConfig | undefined {
+  const access = readSection(value, 'access', ['mode', 'username', 'passwordSecret', 'allow', 'sessionTtl'], issues);
+  if (access) {
+    const mode = access.mode as AccessMode;
+    if (!ACCESS_MODES.includes(mode)) {
+      issues.push(`access.mode must be one of: ${ACCESS_MODES.join(', ')}`);
+    } else {
+      const result: AccessConfig = { mode, username: 'preview', passwordSecret: 'PREVIEW_PASSWORD', allow: 'collaborators', sessionTtlMs: 12 * 60 * 60 * 1000 };
+      if (access.username !== undefined) {
+        if (typeof access.username !== 'string' || !/^[^:\s]{1,64}$/.test(access.username)) issues.push('access.username must be a name without spaces or ":"');
+        else result.username = access.username;
+      }
+      if (access.passwordSecret !== undefined) {
+        if (typeof access.passwordSecret !== 'string' || !/^[A-Za-z_][A-Za-z0-9_]*$/.test(access.passwordSecret)) issues.push('access.passwordSecret must be the name of a stored secret');
+        else result.passwordSecret = access.passwordSecret;
+      }
+      if (access.allow !== undefined) {
+        if (!GITHUB_ACCESS_RULES.includes(access.allow as GitHubAccessRule)) issues.push(`access.allow must be one of: ${GITHUB_ACCESS_RULES.join(', ')}`);
+        else result.allow = access.allow as GitHubAccessRule;
+      }
+      if (access.sessionTtl !== undefined) {
+        const ttlMs = typeof access.sessionTtl === 'string' || typeof access.sessionTtl === 'number' ? parseDuration(access.sessionTtl) : undefined;
+        if (ttlMs === undefined) issues.push('access.sessionTtl must be a duration such as "12h" or "7d"');
+        else result.sessionTtlMs = ttlMs;
+      }
+      return result;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Validate a parsed YAML document and merge it over the defaults.
+ */
+export function validateRepoConfig(raw: unknown, fileName = '.envzilla.yml'): RepoConfig {
+  const issues: Issues = [];
+  const config = defaultRepoConfig();
+
+  if (raw === undefined || raw === null) return config;
+
+  const root = readSection(raw, '(root)', ['version', 'build', 'run', 'services', 'compose', 'access', 'ttl'], issues);
+  if (!root) throw new RepoConfigError(fileName, issues.length ? issues : ['(root) must be a mapping']);
+
+  if (root.version !== undefined && root.version !== 1) {
+    issues.push('version must be 1');
+  }
+
+  const build = readSection(root.build, 'build', ['dockerfile', 'context', 'args'], issues);
+  if (build) {
+    config.build.dockerfile = readRepoPath(build.dockerfile, 'build.dockerfile', issues) ?? config.build.dockerfile;
+    config.build.context = readRepoPath(build.context, 'build.context', issues) ?? config.build.context;
+    config.build.args = readStringMap(build.args, 'build.args', issues) ?? config.build.args;
+  }
+
+  const run = readSection(root.run, 'run', ['port', 'env', 'healthCheck', 'resources', 'security'], issues);
+  if (run) {
+    config.run.port = readPort(run.port, 'run.port', issues) ?? config.run.port;
+    config.run.env = readStringMap(run.env, 'run.env', issues) ?? config.run.env;
+
+    const healthCheck = readSection(run.healthCheck, 'run.healthCheck', ['path'], issues);
+    if (healthCheck?.path !== undefined) {
+      if (typeof healthCheck.path !== 'string' || !healthCheck.path.startsWith('/')) {
+        issues.push('run.healthCheck.path must be a string starting with "/"');
+      } else {
+        config.run.healthCheck.path = healthCheck.path;
+      }
+    }
+
+    const resources = readSection(run.resources, 'run.resources', ['cpus', 'memory', 'pidsLimit'], issues);
+    if (resources?.cpus !== undefined) {
+      if (typeof resources.cpus !== 'number' || !(resources.cpus > 0)) {
+        issues.push('run.resources.cpus must be a positive number');
+      } else {
+        config.run.resources.cpus = resources.cpus;
+      }
+    }
+    if (resources?.memory !== undefined) {
+      if (typeof resources.memory !== 'string' || !MEMORY_PATTERN.test(resources.memory.trim())) {
+        issues.push('run.resources.memory must look like "512m" or "2g"');
+      } else {
+        config.run.resources.memory = resources.memory.trim().toLowerCase();
+      }
+    }
+    if (resources?.pidsLimit !== undefined) {
+      if (typeof resources.pidsLimit !== 'number' || !Number.isInteger(resources.pidsLimit) || resources.pidsLimit < 1) {
+        issues.push('run.resources.pidsLimit must be a positive integer');
+      } else {
+        config.run.resources.pidsLimit = resources.pidsLimit;
+      }
+    }
+
+    const security = readSection(run.security, 'run.security', ['readOnly', 'capDrop', 'noNewPrivileges', 'user'], issues);
+    for (const name of ['readOnly', 'noNewPrivileges'] as const) {
+      if (security?.[name] === undefined) continue;
+      if (typeof security[name] !== 'boolean') issues.push(`run.security.${name} must be true or false`);
+      else config.run.security[name] = security[name];
+    }
+    if (security?.capDrop !== undefined) {
+      const caps = Array.isArray(security.capDrop) && security.capDrop.every(cap => typeof cap === 'string')
+        ? security.capDrop.map(normalizeCapability)
+        : undefined;
+      if (!caps || caps.some(cap => !cap)) {
+        issues.push('run.security.capDrop must be a list of capability names such as ALL or NET_RAW');
+      } else {
+        config.run.security.capDrop = caps as string[];
+      }
+    }
+    if (security?.user !== undefined) {
+      const user = typeof security.user === 'number' ? String(security.user) : security.user;
+      if (typeof user !== 'string' || !USER_PATTERN.test(user.trim())) {
+        issues.push('run.security.user must look like "node", "1000" or "1000:1000"');
+      } else {
+        config.run.security.user = user.trim();
+      }
+    }
+  }
+
+  if (root.services !== undefined && root.services !== null) {
+    if (!isPlainObject(root.services)) {
+      issues.push('services must be a mapping of name: service');
+    } else if (Object.keys(root.services).length > MAX_SERVICES) {
+      issues.push(`services may declare at most ${MAX_SERVICES} services`);
+    } else {
+      config.services = readServices(root.services, issues);
+    }
+  }
+
+  const compose = readSection(root.compose, 'compose', ['file', 'service'], issues);
+  if (compose) {
+    const file = readRepoPath(compose.file, 'compose.file', issues) ?? 'docker-compose.yml';
+    if (typeof compose.service !== 'string' || !/^[A-Za-z0-9][A-Za-z0-9_.-]*$/.test(compose.service)) {
+      issues.push('compose.service must name the service to expose');
+    } else {
+      config.compose = { file, service: compose.service };
+    }
+    if (config.services.length > 0) {
+      issues.push('services can\'t be combined with compose; declare them in the compose file instead');
+    }
+  }
+
+  config.access = readAccess(root.access, issues) ?? config.access;
+
+  if (root.ttl !== undefined) {
+    const ttlMs = typeof root.ttl === 'string' || typeof root.ttl === 'number' ? parseDuration(root.ttl) : undefined;
+    if (ttlMs === undefined) issues.push('ttl must be a duration such as "48h", "2d" or "90m"');
+    else config.ttlMs = ttlMs;
+  }
+
+  if (issues.length > 0) throw new RepoConfigError(fileName, issues);
+  return config;
+}
+
+/**
+ * Parse and validate the contents of an `.envzilla.yml` file.
+ */
+export function parseRepoConfig(source: string, fileName = '.envzilla.yml'): RepoConfig {
+  let raw: unknown;
+  try {
+    raw = parseYaml(source);
+  } catch (error: any) {
+    throw new RepoConfigError(fileName, [`YAML syntax error: ${error.message}`]);
+  }
+  return validateRepoConfig(raw, fileName);
+}
+
+/**
+ * Read `.envzilla.yml` from a checkout. Repositories without one get the
+ * defaults; an invalid file raises RepoConfigError.
+ */
+export async function loadRepoConfig(repoPath: string): Promise<RepoConfig> {
+  for (const fileName of REPO_CONFIG_FILENAMES) {
+    const filePath = path.join(repoPath, fileName);
+    let stat: fs.Stats;
+    try {
+      stat = await fs.promises.stat(filePath);
+    } catch {
+      continue;
+    }
+
+    if (!stat.isFile()) throw new RepoConfigError(fileName, [`${fileName} must be a regular file`]);
+    if (stat.size > MAX_CONFIG_BYTES) throw new RepoConfigError(fileName, [`${fileName} is larger than ${MAX_CONFIG_BYTES} bytes`]);
+
+    const config = parseRepoConfig(await fs.promises.readFile(filePath, 'utf8'), fileName);
+    logger.info({ repoPath, fileName }, '📄 Loaded repository preview configuration');
+    return config;
+  }
+
+  return defaultRepoConfig();
+}
+
+/**
+ * Read only the `access` section of an `.envzilla.yml`, so problems elsewhere
+ * in the file don't matter.
+ */
+export function parseAccessConfig(source: string, fileName = '.envzilla.yml'): AccessConfig | undefined {
+  let raw: unknown;
+  try {
+    raw = parseYaml(source);
+  } catch (error: any) {
+    throw new RepoConfigError(fileName, [`YAML syntax error: ${error.message}`]);
+  }
+  if (!isPlainObject(raw)) return undefined;
+
+  const issues: Issues = [];
+  const access = readAccess(raw.access, issues);
+  if (issues.length > 0) throw new RepoConfigError(fileName, issues);
+  return access;
+}
+
+/**
+ * Read the `access` setting from `.envzilla.yml` on the repository's default
+ * branch through the GitHub API. Returns undefined when the default branch
+ * sets none; throws when it can't be checked.
+ */
+export async function loadDefaultBranchAccess(
+  repoFullName: string,
+  installationId?: number | string
+): Promise<AccessConfig | undefined> {
+  const token = await resolveGitHubToken(installationId);
+  if (!token) throw new Error('No GitHub token available to read the default branch configuration');
+
+  for (const fileName of REPO_CONFIG_FILENAMES) {
+    const source = await getRepoFile(token, repoFullName, fileName);
+    if (source === undefined) continue;
+    if (Buffer.byteLength(source) > MAX_CONFIG_BYTES) throw new RepoConfigError(fileName, [`${fileName} is larger than ${MAX_CONFIG_BYTES} bytes`]);
+    return parseAccessConfig(source, fileName);
+  }
+  return undefined;
+}
+
+/**
+ * The access setting a PR's preview gets. The default branch's setting wins
+ * so a PR can't switch protection off, and a PR may only add one where the
+ * default branch has none. When the default branch can't be checked, the
+ * build only goes ahead if the PR branch doesn't ask for protection either.
+ */
+export async function resolvePreviewAccess(
+  branchAccess: AccessConfig | undefined,
+  repoFullName: string,
+  installationId?: number | string
+): Promise<AccessConfig | undefined> {
+  try {
+    return (await loadDefaultBranchAccess(repoFullName, installationId)) ?? branchAccess;
+  } catch (error: any) {
+    if (branchAccess) throw new Error(`Could not check the access setting on the default branch: ${error.message}`, { cause: error });
+    logger.warn({ repo: repoFullName, error: error.message }, 'Could not check the default branch access setting; the branch sets none');
+    return undefined;
+  }
+}
+
+/**
+ * Markdown explaining why the configuration was rejected, for PR comments.
+ */
+export function formatRepoConfigError(error: RepoConfigError): string {
+  return [
+    `⚠️ EnvZilla could not use \`${error.fileName}\` from this branch, so no preview was built:`,
+    '',
+    ...error.issues.map(issue => `- ${issue}`),
+    '',
+    'Fix the file and push again to retry.',
+  ].join('\n');
+}
@@ -0,0 +1,216 @@
+import fs from 'fs';
+import path from 'path';
+import logger from '../utils/logger.js';
+import { encryptData, decryptData } from '../utils/encryption.js';
+import { EncryptedData } from '../types/webhook.js';
+import { DeploymentKey, parseDeploymentKey } from './deploymentKey.js';
+
+/**
+ * Environment variables injected into preview containers at run time:
+ * defaults per repository plus overrides per PR. The whole store is kept in
+ * one file encrypted with SECRETS_ENCRYPTION_KEY (see the README).
+ */
+
+type SecretValues = Record<string, string>;
+
+interface RepoSecrets {
+  defaults: SecretValues;
+  // Overrides by PR number
+  pulls: Record<string, SecretValues>;
+}
+
+interface SecretsDocument {
+  repos: Record<string, RepoSecrets>;
+}
+
+interface SecretsFile {
+  version: 1;
+  data: EncryptedData;
+}
+
+/**
+ * Names (never values) stored for a repository.
+ */
+export interface SecretNames {
+  defaults: string[];
+  pulls: Record<string, string[]>;
+}
+
+/**
+ * Changes to apply to one scope; `null` removes the variable.
+ */
+export type SecretChanges = Record<string, string | null>;
+
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const MAX_VALUE_LENGTH = 32 * 1024;
+
+/**
+ * Raised for invalid names or values, with one message per problem.
+ */
+export class SecretsValidationError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid secrets: ${issues.join('; ')}`);
+    this.name = 'SecretsValidationError';
+  }
+}
+
+export function validateSecretChanges(changes: unknown): SecretChanges {
+  if (typeof changes !== 'object' || changes === null || Array.isArray(changes)) {
+    throw new SecretsValidationError(['body must be an object of NAME: value']);
+  }
+  const issues: string[] = [];
+  for (const [name, value] of Object.entries(changes)) {
+    if (!NAME_PATTERN.test(name)) {
+      issues.push(`${name} is not a valid variable name`);
+    } else if (value !== null && typeof value !== 'string') {
+      issues.push(`${name} must be a string, or null to remove it`);
+    } else if (typeof value === 'string' && /[\r\n\0]/.test(value)) {
+      // docker --env-file has no way to express these
+      issues.push(`${name} must be a single line`);
+    } else if (typeof value === 'string' && value.length > MAX_VALUE_LENGTH) {
+      issues.push(`${name} is longer than ${MAX_VALUE_LENGTH} characters`);
+    }
+  }
+  if (issues.length > 0) throw new SecretsValidationError(issues);
+  return changes as SecretChanges;
+}
+
+function applyChanges(values: SecretValues, changes: SecretChanges): SecretValues {
+  const next = { ...values };
+  for (const [name, value] of Object.entries(changes)) {
+    if (value === null) delete next[name];
+    else next[name] = value;
+  }
+  return next;
+}
+
+/**
+ * File-backed secrets store. The decrypted document is cached after the first
+ * read; writes are serialized and replace the file atomically with mode 0600.
+ */
+export class SecretsStore {
+  private document: SecretsDocument | undefined;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string, private readonly encryptionKey: string) {}
+
+  private async load(): Promise<SecretsDocument> {
+    if (this.document) return this.document;
+
+    let raw: string;
+    try {
+      raw = await fs.promises.readFile(this.filePath, 'utf8');
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') throw error;
+      this.document = { repos: {} };
+      return this.document;
+    }
+
+    const file = JSON.parse(raw) as SecretsFile;
+    if (file.version !== 1) throw new Error(`Unsupported secrets file version: ${file.version}`);
+    try {
+      this.document = JSON.parse(decryptData(file.data, this.encryptionKey)) as SecretsDocument;
+    } catch {
+      throw new Error('Could not decrypt the secrets store; is SECRETS_ENCRYPTION_KEY correct?');
+    }
+    logger.info({ filePath: this.filePath, repos: Object.keys(this.document.repos).length }, '🔐 Loaded secrets store');
+    return this.document;
+  }
+
+  private async save(document: SecretsDocument): Promise<void> {
+    const file: SecretsFile = { version: 1, data: encryptData(JSON.stringify(document), this.encryptionKey) };
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.writeFile(tmpPath, JSON.stringify(file) + '\n', { encoding: 'utf8', mode: 0o600 });
+    await fs.promises.rename(tmpPath, this.filePath);
+    this.document = document;
+  }
+
+  /**
+   * Run a read-modify-write of the document after any pending one.
+   */
+  private mutate(change: (document: SecretsDocument) => SecretsDocument): Promise<void> {
+    const run = async () => this.save(change(structuredClone(await this.load())));
+    const next = this.writeChain.then(run, run);
+    this.writeChain = next.catch(() => undefined);
+    return next;
+  }
+
+  async names(repoFullName: string): Promise<SecretNames> {
+    const repo = (await this.load()).repos[repoFullName.toLowerCase()];
+    return {
+      defaults: Object.keys(repo?.defaults ?? {}).sort(),
+      pulls: Object.fromEntries(Object.entries(repo?.pulls ?? {}).map(([pr, values]) => [pr, Object.keys(values).sort()])),
+    };
+  }
+
+  /**
+   * Update the repository defaults, or a PR's overrides when `prNumber` is set.
+   */
+  update(repoFullName: string, prNumber: number | undefined, changes: SecretChanges): Promise<void> {
+    const repoName = repoFullName.toLowerCase();
+    return this.mutate(document => {
+      const repo = document.repos[repoName] ?? { defaults: {}, pulls: {} };
+      if (prNumber === undefined) {
+        repo.defaults = applyChanges(repo.defaults, changes);
+      } else {
+        const values = applyChanges(repo.pulls[prNumber] ?? {}, changes);
+        if (Object.keys(values).length > 0) repo.pulls[prNumber] = values;
+        else delete repo.pulls[prNumber];
+      }
+      if (Object.keys(repo.defaults).length > 0 || Object.keys(repo.pulls).length > 0) document.repos[repoName] = repo;
+      else delete document.repos[repoName];
+      return document;
+    });
+  }
+
+  /**
+   * Values for a preview: the repository defaults with the PR's overrides on top.
+   */
+  async resolve(key: DeploymentKey): Promise<SecretValues> {
+    const { repoFullName, prNumber } = parseDeploymentKey(key);
+    const repo = (await this.load()).repos[repoFullName];
+    return { ...repo?.defaults, ...repo?.pulls[prNumber] };
+  }
+
+  async removePR(key: DeploymentKey): Promise<void> {
+    const { repoFullName, prNumber } = parseDeploymentKey(key);
+    const values = (await this.load()).repos[repoFullName]?.pulls[prNumber];
+    if (!values) return;
+    await this.update(repoFullName, prNumber, Object.fromEntries(Object.keys(values).map(name => [name, null])));
+  }
+}
+
+let store: SecretsStore | undefined;
+
+/**
+ * Shared store, or undefined when SECRETS_ENCRYPTION_KEY isn't set.
+ */
+export function getSecretsStore(): SecretsStore | undefined {
+  const encryptionKey = process.env.SECRETS_ENCRYPTION_KEY;
+  if (!encryptionKey) return undefined;
+  if (!store) {
+    const filePath = path.resolve(process.env.SECRETS_STORE_PATH || path.join(process.cwd(), 'data', 'secrets.json'));
+    store = new SecretsStore(filePath, encryptionKey);
+  }
+  return store;
+}
+
+/**
+ * Secrets to inject into a preview, or none if the store isn't configured.
+ */
+export async function resolveSecrets(key: DeploymentKey): Promise<SecretValues> {
+  const secrets = getSecretsStore();
+  return secrets ? secrets.resolve(key) : {};
+}
+
+/**
+ * Forget a PR's overrides once it is merged. Failures are only logged.
+ */
+export async function removePRSecrets(key: DeploymentKey): Promise<void> {
+  try {
+    await getSecretsStore()?.removePR(key);
+  } catch (error: any) {
+    logger.warn({ deployment: key, error: error.message }, 'Failed to remove PR secrets');
+  }
+}
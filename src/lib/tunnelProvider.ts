@@ -0,0 +1,176 @@
+import logger from '../utils/logger.js';
+import { DeploymentKey, dockerSafeId } from './deploymentKey.js';
+import { CloudflaredQuickTunnelProvider } from './cloudflaredManager.js';
+import { CloudflaredNamedTunnelProvider, namedTunnelConfig } from './cloudflaredNamedTunnel.js';
+import { NgrokTunnelProvider } from './ngrokTunnel.js';
+import { SupervisedTunnelProvider } from './tunnelSupervisor.js';
+
+/**
+ * How previews are made reachable from outside the host. Each deployment has
+ * at most one tunnel, pointing at its route port (see previewRouter.ts), so
+ * it survives redeploys. The provider is chosen with TUNNEL_PROVIDER and
+ * supervised (see tunnelSupervisor.ts).
+ */
+
+export interface TunnelInfo {
+  publicUrl: string;
+  proto: string;
+  port: number;
+}
+
+export type TunnelState = 'starting' | 'connected' | 'restarting' | 'failed';
+
+export interface TunnelStatus {
+  deployment: DeploymentKey;
+  provider: string;
+  state: TunnelState;
+  port: number;
+  publicUrl?: string;
+  startedAt: number;
+  // Filled in by the supervisor
+  restarts?: number;
+  lastError?: string;
+  nextRetryAt?: number;
+}
+
+export type TunnelExitListener = (key: DeploymentKey, error: Error) => void;
+
+export interface TunnelProvider {
+  readonly name: string;
+  /**
+   * Expose the port for the deployment, replacing its previous tunnel.
+   */
+  start(key: DeploymentKey, port: number): Promise<TunnelInfo>;
+  stop(key: DeploymentKey): Promise<void>;
+  status(key: DeploymentKey): TunnelStatus | undefined;
+  listActive(): TunnelStatus[];
+  stopAll(): Promise<void>;
+  /**
+   * Called when an established tunnel goes away without `stop`.
+   */
+  onExit(listener: TunnelExitListener): void;
+}
+
+export const TUNNEL_PROVIDERS = ['cloudflared', 'cloudflared-named', 'ngrok', 'none'] as const;
+
+/**
+ * No tunnel: previews are only reachable at http://localhost:<route port>,
+ * or through the built-in preview proxy.
+ */
+export class LocalTunnelProvider implements TunnelProvider {
+  readonly name: string = 'none';
+  private tunnels = new Map<DeploymentKey, TunnelStatus>();
+  protected exitListeners: TunnelExitListener[] = [];
+
+  async start(key: DeploymentKey, port: number): Promise<TunnelInfo> {
+    const publicUrl = `http://localhost:${port}`;
+    this.tunnels.set(key, { deployment: key, provider: this.name, state: 'connected', port, publicUrl, startedAt: Date.now() });
+    return { publicUrl, proto: 'http', port };
+  }
+
+  async stop(key: DeploymentKey): Promise<void> {
+    this.tunnels.delete(key);
+  }
+
+  status(key: DeploymentKey): TunnelStatus | undefined {
+    const status = this.tunnels.get(key);
+    return status && { ...status };
+  }
+
+  listActive(): TunnelStatus[] {
+    return Array.from(this.tunnels.values(), status => ({ ...status }));
+  }
+
+  async stopAll(): Promise<void> {
+    this.tunnels.clear();
+  }
+
+  onExit(listener: TunnelExitListener): void {
+    this.exitListeners.push(listener);
+  }
+}
+
+/**
+ * In-process provider for tests: URLs are derived from the deployment
+ * (`https://<owner>-<repo>-<hash>-<pr>.tunnel.test`), every call is
+ * recorded and `simulateExit` kills a tunnel the way a crash would.
+ */
+export class FakeTunnelProvider extends LocalTunnelProvider {
+  override readonly name: string = 'fake';
+  readonly calls: Array<{ method: 'start' | 'stop'; key: DeploymentKey; port?: number }> = [];
+
+  constructor(private readonly domain = 'tunnel.test') {
+    super();
+  }
+
+  override async start(key: DeploymentKey, port: number): Promise<TunnelInfo> {
+    this.calls.push({ method: 'start', key, port });
+    await super.start(key, port);
+    return { publicUrl: this.urlFor(key), proto: 'https', port };
+  }
+
+  override async stop(key: DeploymentKey): Promise<void> {
+    this.calls.push({ method: 'stop', key });
+    await super.stop(key);
+  }
+
+  override status(key: DeploymentKey): TunnelStatus | undefined {
+    const status = super.status(key);
+    return status && { ...status, provider: this.name, publicUrl: this.urlFor(key) };
+  }
+
+  override listActive(): TunnelStatus[] {
+    return super.listActive().map(status => ({ ...status, provider: this.name, publicUrl: this.urlFor(status.deployment) }));
+  }
+
+  async simulateExit(key: DeploymentKey, error = new Error('tunnel process exited')): Promise<void> {
+    if (!super.status(key)) return;
+    await super.stop(key);
+    for (const listener of this.exitListeners) listener(key, error);
+  }
+
+  urlFor(key: DeploymentKey): string {
+    return `https://${dockerSafeId(key)}.${this.domain}`;
+  }
+}
+
+/**
+ * Create the provider selected by TUNNEL_PROVIDER. Without it, the named
+ * Cloudflare tunnel is used when CLOUDFLARED_TUNNEL is configured and quick
+ * tunnels otherwise.
+ */
+export function createTunnelProvider(): TunnelProvider {
+  const named = namedTunnelConfig();
+  const kind = (process.env.TUNNEL_PROVIDER || (named ? 'cloudflared-named' : 'cloudflared')).toLowerCase();
+  switch (kind) {
+    case 'cloudflared':
+      return new CloudflaredQuickTunnelProvider();
+    case 'cloudflared-named':
+      if (!named) throw new Error('TUNNEL_PROVIDER=cloudflared-named requires CLOUDFLARED_TUNNEL and CLOUDFLARED_TUNNEL_DOMAIN');
+      return new CloudflaredNamedTunnelProvider(named);
+    case 'ngrok':
+      return new NgrokTunnelProvider();
+    case 'none':
+      logger.info('TUNNEL_PROVIDER=none: previews are only reachable locally or through the preview proxy');
+      return new LocalTunnelProvider();
+    default:
+      throw new Error(`Unknown TUNNEL_PROVIDER "${kind}", expected one of: ${TUNNEL_PROVIDERS.join(', ')}`);
+  }
+}
+
+let provider: TunnelProvider | undefined;
+
+/**
+ * Shared provider instance, created on first use.
+ */
+export function getTunnelProvider(): TunnelProvider {
+  if (!provider) provider = new SupervisedTunnelProvider(createTunnelProvider());
+  return provider;
+}
+
+/**
+ * Replace the shared provider (for tests or alternative providers).
+ */
+export function setTunnelProvider(next: TunnelProvider): void {
+  provider = next;
+}
@@ -0,0 +1,194 @@
+import logger from '../utils/logger.js';
+import { DeploymentKey } from './deploymentKey.js';
+import { getDeploymentStore } from './deploymentStore.js';
+import { updatePreviewComment } from './previewComment.js';
+import type { TunnelExitListener, TunnelInfo, TunnelProvider, TunnelStatus } from './tunnelProvider.js';
+
+/**
+ * Restarts tunnels that die after they were established. Without it a dead
+ * cloudflared process would leave the preview unreachable while its record
+ * still says `running`. Restarts back off exponentially; a tunnel that comes
+ * back with a different URL has it written to the deployment record and the
+ * PR comment.
+ */
+
+interface SupervisedTunnel {
+  port: number;
+  publicUrl?: string;
+  startedAt: number;
+  // Total restarts, and consecutive ones the backoff is based on
+  restarts: number;
+  attempts: number;
+  // Set while the tunnel is down
+  state?: 'restarting' | 'failed';
+  lastError?: string;
+  nextRetryAt?: number;
+  timer?: NodeJS.Timeout;
+}
+
+// A tunnel that stayed up this long starts its backoff from scratch
+const STABLE_AFTER_MS = 60_000;
+
+function restartSettings() {
+  return {
+    baseDelayMs: Number(process.env.TUNNEL_RESTART_DELAY_MS) || 2000,
+    maxDelayMs: Number(process.env.TUNNEL_RESTART_MAX_DELAY_MS) || 5 * 60 * 1000,
+    maxAttempts: Number(process.env.TUNNEL_MAX_RESTARTS) || 10,
+  };
+}
+
+/**
+ * Write a restarted tunnel's new URL to a running deployment and its PR
+ * comment. A build finishing at the same time writes its own URL, so a
+ * record that changed meanwhile is left alone.
+ */
+async function publishTunnelUrl(key: DeploymentKey, publicUrl: string): Promise<void> {
+  const store = getDeploymentStore();
+  const record = await store.get(key);
+  if (!record || record.status !== 'running' || record.previewUrl === publicUrl) return;
+  if (!(await store.compareAndSet(key, record, { ...record, previewUrl: publicUrl, lastError: undefined }))) return;
+
+  logger.info({ deployment: key, publicUrl }, '🔗 Preview URL changed after tunnel restart');
+  await updatePreviewComment(key, record.installationId, {
+    status: 'running',
+    commitSha: record.commitSha,
+    previewUrl: publicUrl,
+    startedAt: record.buildStartedAt,
+    completedAt: record.buildCompletedAt,
+    author: record.author,
+  });
+}
+
+async function recordTunnelFailure(key: DeploymentKey, message: string): Promise<void> {
+  const store = getDeploymentStore();
+  const record = await store.get(key);
+  if (!record || record.status !== 'running') return;
+  await store.compareAndSet(key, record, { ...record, lastError: message });
+}
+
+/**
+ * Wraps a provider and restarts its tunnels when they exit unexpectedly.
+ */
+export class SupervisedTunnelProvider implements TunnelProvider {
+  private tunnels = new Map<DeploymentKey, SupervisedTunnel>();
+
+  constructor(private readonly inner: TunnelProvider) {
+    inner.onExit((key, error) => this.handleExit(key, error));
+  }
+
+  get name(): string {
+    return this.inner.name;
+  }
+
+  async start(key: DeploymentKey, port: number): Promise<TunnelInfo> {
+    this.forget(key);
+    const info = await this.inner.start(key, port);
+    this.tunnels.set(key, { port, publicUrl: info.publicUrl, startedAt: Date.now(), restarts: 0, attempts: 0 });
+    return info;
+  }
+
+  async stop(key: DeploymentKey): Promise<void> {
+    this.forget(key);
+    await this.inner.stop(key);
+  }
+
+  status(key: DeploymentKey): TunnelStatus | undefined {
+    const tunnel = this.tunnels.get(key);
+    const status = this.inner.status(key);
+    if (tunnel?.state || (tunnel && !status)) return this.downStatus(key, tunnel);
+    return status && { ...status, restarts: tunnel?.restarts ?? 0 };
+  }
+
+  listActive(): TunnelStatus[] {
+    const active = this.inner.listActive().map(status => this.status(status.deployment) ?? status);
+    const listed = new Set(active.map(status => status.deployment));
+    for (const [key, tunnel] of this.tunnels) {
+      if (!listed.has(key)) active.push(this.downStatus(key, tunnel));
+    }
+    return active;
+  }
+
+  async stopAll(): Promise<void> {
+    for (const key of Array.from(this.tunnels.keys())) this.forget(key);
+    await this.inner.stopAll();
+  }
+
+  onExit(listener: TunnelExitListener): void {
+    this.inner.onExit(listener);
+  }
+
+  private downStatus(key: DeploymentKey, tunnel: SupervisedTunnel): TunnelStatus {
+    return {
+      deployment: key,
+      provider: this.name,
+      state: tunnel.state ?? 'restarting',
+      port: tunnel.port,
+      publicUrl: tunnel.publicUrl,
+      startedAt: tunnel.startedAt,
+      restarts: tunnel.restarts,
+      lastError: tunnel.lastError,
+      nextRetryAt: tunnel.nextRetryAt,
+    };
+  }
+
+  private forget(key: DeploymentKey): void {
+    const tunnel = this.tunnels.get(key);
+    if (tunnel?.timer) clearTimeout(tunnel.timer);
+    this.tunnels.delete(key);
+  }
+
+  private handleExit(key: DeploymentKey, error: Error): void {
+    const tunnel = this.tunnels.get(key);
+    // Stopped on purpose, or already being restarted
+    if (!tunnel || tunnel.state === 'restarting') return;
+    logger.warn({ deployment: key, provider: this.name, error: error.message }, '⚠️ Tunnel exited unexpectedly; restarting');
+    tunnel.lastError = error.message;
+    if (Date.now() - tunnel.startedAt > STABLE_AFTER_MS) tunnel.attempts = 0;
+    this.scheduleRestart(key, tunnel);
+  }
+
+  private scheduleRestart(key: DeploymentKey, tunnel: SupervisedTunnel): void {
+    const { baseDelayMs, maxDelayMs, maxAttempts } = restartSettings();
+    if (tunnel.attempts >= maxAttempts) {
+      tunnel.state = 'failed';
+      tunnel.nextRetryAt = undefined;
+      logger.error({ deployment: key, provider: this.name, attempts: tunnel.attempts, error: tunnel.lastError }, 'Tunnel could not be restarted; giving up');
+      void recordTunnelFailure(key, `Tunnel failed after ${tunnel.attempts} restart attempts: ${tunnel.lastError}`)
+        .catch((err: any) => logger.warn({ deployment: key, err: err?.message }, 'Failed to record tunnel failure'));
+      return;
+    }
+
+    const delay = Math.min(baseDelayMs * 2 ** tunnel.attempts, maxDelayMs);
+    tunnel.state = 'restarting';
+    tunnel.nextRetryAt = Date.now() + delay;
+    tunnel.timer = setTimeout(() => void this.restart(key, tunnel), delay);
+    tunnel.timer.unref();
+  }
+
+  private async restart(key: DeploymentKey, tunnel: SupervisedTunnel): Promise<void> {
+    tunnel.timer = undefined;
+    tunnel.attempts++;
+    try {
+      const info = await this.inner.start(key, tunnel.port);
+      // Stopped while restarting (a newer start replaces the entry instead)
+      if (!this.tunnels.has(key)) {
+        await this.inner.stop(key);
+        return;
+      }
+      if (this.tunnels.get(key) !== tunnel) return;
+      const previousUrl = tunnel.publicUrl;
+      Object.assign(tunnel, { publicUrl: info.publicUrl, state: undefined, nextRetryAt: undefined, startedAt: Date.now() });
+      tunnel.restarts++;
+      logger.info({ deployment: key, provider: this.name, restarts: tunnel.restarts, publicUrl: info.publicUrl }, '✅ Tunnel restarted');
+      if (info.publicUrl !== previousUrl) {
+        await publishTunnelUrl(key, info.publicUrl)
+          .catch((err: any) => logger.warn({ deployment: key, err: err?.message }, 'Failed to publish new tunnel URL'));
+      }
+    } catch (error: any) {
+      if (this.tunnels.get(key) !== tunnel) return;
+      tunnel.lastError = error.message;
+      logger.warn({ deployment: key, provider: this.name, attempt: tunnel.attempts, error: error.message }, 'Tunnel restart failed');
+      this.scheduleRestart(key, tunnel);
+    }
+  }
+}
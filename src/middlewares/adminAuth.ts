@@ -0,0 +1,25 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import logger from '../utils/logger.js';
+
+/**
+ * Require `Authorization: Bearer <ADMIN_API_TOKEN>`. Without the variable the
+ * protected endpoints are disabled altogether.
+ */
+export function requireAdminToken(req: Request, res: Response, next: NextFunction) {
+  const token = process.env.ADMIN_API_TOKEN;
+  if (!token) {
+    return res.status(503).json({ error: 'Admin API is disabled; set ADMIN_API_TOKEN to enable it' });
+  }
+
+  const match = (req.headers.authorization || '').match(/^Bearer\s+(.+)$/i);
+  // Compare digests so the check takes the same time whatever the length
+  const given = crypto.createHash('sha256').update(match ? match[1].trim() : '').digest();
+  const expected = crypto.createHash('sha256').update(token).digest();
+  if (!match || !crypto.timingSafeEqual(given, expected)) {
+    logger.warn({ topic: 'admin', path: req.path, ip: req.ip }, 'Rejected admin API request');
+    return res.status(401).json({ error: 'Invalid or missing admin token' });
+  }
+
+  return next();
+}
@@ -0,0 +1,87 @@
+import { test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Request, Response } from 'express';
+import { dispatchWebhookEvent } from './dispatcherServer.js';
+import { InMemoryDeploymentStore, setDeploymentStore } from '../lib/deploymentStore.js';
+
+interface GitHubCall {
+  method: string;
+  path: string;
+  body?: any;
+}
+
+const realFetch = globalThis.fetch;
+const savedToken = process.env.GITHUB_TOKEN;
+let calls: GitHubCall[];
+let store: InMemoryDeploymentStore;
+
+// Answers the GitHub API calls a ChatOps command makes for PR #5 of acme/web
+function fakeGitHub(pullRequest: Record<string, unknown>) {
+  globalThis.fetch = (async (input: Parameters<typeof fetch>[0], init?: RequestInit) => {
+    const url = new URL(input instanceof globalThis.Request ? input.url : String(input));
+    const method = init?.method ?? 'GET';
+    const body = typeof init?.body === 'string' ? JSON.parse(init.body) : undefined;
+    calls.push({ method, path: url.pathname, body });
+
+    const json = (status: number, data: unknown) => new Response(JSON.stringify(data), { status, headers: { 'content-type': 'application/json' } });
+    if (url.pathname === '/repos/acme/web/collaborators/alice/permission') return json(200, { permission: 'write' });
+    if (url.pathname === '/repos/acme/web/pulls/5') return json(200, pullRequest);
+    if (url.pathname.endsWith('/reactions')) return json(201, { id: 1 });
+    if (url.pathname === '/repos/acme/web/issues/5/comments') return json(201, { id: 2 });
+    return json(404, { message: 'Not Found' });
+  }) as typeof fetch;
+}
+
+function comment(body: string) {
+  return {
+    headers: { 'x-github-event': 'issue_comment' },
+    body: {
+      action: 'created',
+      issue: { number: 5, pull_request: {} },
+      comment: { id: 99, body, user: { login: 'alice', type: 'User' } },
+      repository: { full_name: 'acme/web' },
+    },
+  } as unknown as Request;
+}
+
+function response(): { res: Response; sent: { status?: number; body?: any } } {
+  const sent: { status?: number; body?: any } = {};
+  const res = {
+    status(code: number) { sent.status = code; return this; },
+    json(body: unknown) { sent.body = body; return this; },
+  } as unknown as Response;
+  return { res, sent };
+}
+
+beforeEach(() => {
+  calls = [];
+  store = new InMemoryDeploymentStore();
+  setDeploymentStore(store);
+  process.env.GITHUB_TOKEN = 'test-token';
+});
+
+afterEach(() => {
+  globalThis.fetch = realFetch;
+  if (savedToken === undefined) delete process.env.GITHUB_TOKEN;
+  else process.env.GITHUB_TOKEN = savedToken;
+});
+
+test('/envzilla rebuild leaves PRs labelled no-preview alone', async () => {
+  fakeGitHub({
+    state: 'open',
+    title: 'Try things',
+    draft: false,
+    labels: [{ name: 'no-preview' }],
+    user: { login: 'alice' },
+    head: { ref: 'feature', sha: 'abcdef1234567890', repo: { clone_url: 'https://github.com/acme/web.git', full_name: 'acme/web' } },
+  });
+
+  const { res, sent } = response();
+  await dispatchWebhookEvent(comment('/envzilla rebuild'), res, () => {});
+
+  assert.equal(sent.status, 202);
+  const reply = calls.find(call => call.method === 'POST' && call.path === '/repos/acme/web/issues/5/comments');
+  assert.equal(reply?.body.body, '@alice this PR isn\'t deployed (labelled no-preview), so it was not rebuilt.');
+  assert.equal(calls.find(call => call.path.endsWith('/reactions'))?.body.content, '+1');
+  assert.equal((await store.list()).size, 0);
+});
@@ -1,7 +1,19 @@
 import { Request, Response, NextFunction } from 'express';
-import crypto from 'crypto';
 import logger from '../utils/logger.js';
 import * as worker from '../worker.js';
+import { getDeploymentStore } from '../lib/deploymentStore.js';
+import { DeploymentKey, makeDeploymentKey, parseDeploymentKey } from '../lib/deploymentKey.js';
+import { BuildQueue, BuildQueueStats } from '../lib/buildQueue.js';
+import { removeBuildLogs, buildLogUrl } from '../lib/buildLogs.js';
+import { queueCheckRun, completeCheckRun } from '../lib/checkRuns.js';
+import { parseChatOpsCommand, canRunChatOps, ChatOpsCommand, CHATOPS_HELP } from '../lib/chatOps.js';
+import { resolveGitHubToken } from '../lib/githubAuth.js';
+import { addCommentReaction, getPullRequestHead, getRepoPermission, postPRComment, PullRequestHead, ReactionContent } from '../lib/githubClient.js';
+import { parseDuration, formatDuration } from '../utils/duration.js';
+import { previewBlockedReason, labelChangeEffect, forkPolicy, isForkPR } from '../lib/previewPolicy.js';
+import { updatePreviewComment } from '../lib/previewComment.js';
+import { removePRSecrets } from '../lib/secretsStore.js';
+import { encryptData, decryptData } from '../utils/encryption.js';
 import { 
   GitHubWebhookPayload, 
   DeploymentInfo, 
@@ -10,50 +22,24 @@ import {
   WebhookEventContext 
 } from '../types/webhook.js';
 
-// In-memory deployment tracking
-// In production, this should be moved to a persistent store like Redis
-const deployments = new Map<number, DeploymentInfo>();
+// Builds go through a queue: a global concurrency cap, one build at a time per
+// deployment, and newer commits superseding older ones. Created on first use
+// so BUILD_CONCURRENCY from .env is already loaded.
+let buildQueue: BuildQueue<worker.BuildForPRResult> | undefined;
 
-/**
- * Encrypts sensitive data using AES-256-GCM
- */
-function encryptData(data: string, key: string): EncryptedData {
-  const algorithm = 'aes-256-gcm';
-  const iv = crypto.randomBytes(16);
-  
-  // Create a 32-byte key from the provided key string
-  const keyBuffer = crypto.scryptSync(key, 'salt', 32);
-  const cipher = crypto.createCipheriv(algorithm, keyBuffer, iv);
-  
-  let encrypted = cipher.update(data, 'utf8', 'hex');
-  encrypted += cipher.final('hex');
-  
-  const tag = cipher.getAuthTag();
-  
-  return {
-    encrypted,
-    iv: iv.toString('hex'),
-    tag: tag.toString('hex')
-  };
+function getBuildQueue(): BuildQueue<worker.BuildForPRResult> {
+  if (!buildQueue) buildQueue = new BuildQueue(Number(process.env.BUILD_CONCURRENCY) || 2);
+  return buildQueue;
 }
 
-/**
- * Decrypts data using AES-256-GCM
- */
-function decryptData(encryptedData: string, key: string, iv: string, tag: string): string {
-  const algorithm = 'aes-256-gcm';
-  
-  // Create a 32-byte key from the provided key string (same method as encryption)
-  const keyBuffer = crypto.scryptSync(key, 'salt', 32);
-  const decipher = crypto.createDecipheriv(algorithm, keyBuffer, Buffer.from(iv, 'hex'));
-  
-  decipher.setAuthTag(Buffer.from(tag, 'hex'));
-  
-  let decrypted = decipher.update(encryptedData, 'hex', 'utf8');
-  decrypted += decipher.final('utf8');
-  
-  return decrypted;
-}
+// Age after which a deployment without a `ttl` counts as stale
+const DEFAULT_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Longest `/envzilla extend` accepted in one go
+const MAX_EXTEND_MS = 30 * 24 * 60 * 60 * 1000;
+
+// What became of a request to build a PR's head commit
+type BuildRequestOutcome = 'queued' | 'awaiting_approval' | 'refused' | 'failed' | 'blocked';
 
 /**
  * Processes webhook payload and extracts sensitive information
@@ -92,6 +78,11 @@ export async function dispatchWebhookEvent(req: Request, res: Response, next: Ne
       pr: payload.pull_request?.number 
     }, '🚀 Processing webhook event');
 
+    // Slash commands in PR comments
+    if (event === 'issue_comment') {
+      return await handleIssueComment(payload, res);
+    }
+
     // Only handle pull_request events
     if (event !== 'pull_request' || !payload.pull_request) {
       logger.info({ event }, 'Ignoring non-pull-request event');
@@ -101,6 +92,11 @@ export async function dispatchWebhookEvent(req: Request, res: Response, next: Ne
     const prNumber = payload.pull_request.number;
     const { action } = payload;
 
+    // Deployments are keyed by the base repository so the same PR number in
+    // two repositories never collides (the head repo differs for forks).
+    const repoFullName = payload.repository?.full_name || payload.pull_request.base.repo.full_name;
+    const key = makeDeploymentKey(repoFullName, prNumber);
+
     // Process and encrypt sensitive data
     const { processedData, sensitiveData } = processWebhookPayload(payload);
     const encryptionKey = process.env.GITHUB_WEBHOOK_SECRET || 'fallback-key';
@@ -111,7 +107,7 @@ export async function dispatchWebhookEvent(req: Request, res: Response, next: Ne
     );
 
     logger.info({ 
-      pr: prNumber, 
+      deployment: key, 
       action, 
       branch: payload.pull_request.head.ref,
       encryptedDataCount: encryptedSensitiveData.length 
@@ -122,21 +118,47 @@ export async function dispatchWebhookEvent(req: Request, res: Response, next: Ne
       case 'opened':
       case 'reopened':
       case 'synchronize':
-        await handleCreateOrUpdate(prNumber, payload, encryptedSensitiveData, encryptionKey);
+      case 'ready_for_review': {
+        // Label and draft policies (see previewPolicy.ts)
+        const blocked = previewBlockedReason(payload.pull_request);
+        if (blocked) {
+          logger.info({ deployment: key, action, reason: blocked }, '⏸️ Not deploying PR');
+          return res.status(200).json({ status: 'ignored', action, reason: blocked });
+        }
+        await handleCreateOrUpdate(key, payload, encryptedSensitiveData, encryptionKey);
         break;
+      }
+
+      case 'labeled':
+      case 'unlabeled': {
+        const effect = labelChangeEffect(action, payload.label?.name, payload.pull_request);
+        if (effect === 'deploy' && payload.pull_request.state === 'open') {
+          await handleCreateOrUpdate(key, payload, encryptedSensitiveData, encryptionKey);
+        } else if (effect === 'destroy' && await getDeploymentStore().get(key)) {
+          logger.info({ deployment: key, action, label: payload.label?.name }, '🏷️ Label change removes the preview');
+          await handleDestroy(key, payload);
+        } else {
+          return res.status(200).json({ status: 'ignored', action, reason: 'label-not-relevant' });
+        }
+        break;
+      }
       
       case 'closed':
       case 'merged':
-        await handleDestroy(prNumber, payload);
+        await handleDestroy(key, payload);
+        // A closed PR can be reopened, so its secret overrides only go once
+        // it is merged
+        if (action === 'merged' || payload.pull_request.merged) await removePRSecrets(key);
         break;
       
       default:
-        logger.info({ action, pr: prNumber }, 'Ignoring unsupported PR action');
+        logger.info({ action, deployment: key }, 'Ignoring unsupported PR action');
         return res.status(200).json({ status: 'ignored', action });
     }
 
     res.status(202).json({ 
       status: 'accepted', 
+      repo: repoFullName,
       pr: prNumber, 
       action,
       message: 'Webhook event processed successfully' 
@@ -158,145 +180,503 @@ export async function dispatchWebhookEvent(req: Request, res: Response, next: Ne
   }
 }
 
+/**
+ * Handles `/envzilla` commands typed in PR comments. Only users with write
+ * access to the repository may run them; the comment gets a reaction and a
+ * reply with the result.
+ */
+async function handleIssueComment(payload: GitHubWebhookPayload, res: Response) {
+  const { issue, comment } = payload;
+  const command = comment ? parseChatOpsCommand(comment.body) : undefined;
+  const repoFullName = payload.repository?.full_name;
+
+  // Commands only apply to PRs, and bots (including EnvZilla) never run them
+  if (payload.action !== 'created' || !issue?.pull_request || !comment || !command || !repoFullName || comment.user.type === 'Bot') {
+    return res.status(200).json({ status: 'ignored', reason: 'no-command' });
+  }
+
+  const key = makeDeploymentKey(repoFullName, issue.number);
+  const login = comment.user.login;
+  logger.info({ deployment: key, command: command.name, user: login }, '💬 Received ChatOps command');
+
+  const token = await resolveGitHubToken(payload.installation?.id);
+  if (!token) {
+    logger.warn({ deployment: key }, 'No GITHUB_TOKEN or installation token; cannot check permissions for ChatOps command');
+    return res.status(200).json({ status: 'ignored', reason: 'no-github-token' });
+  }
+
+  const reply = async (reaction: ReactionContent, body: string) => {
+    try {
+      await addCommentReaction(token, repoFullName, comment.id, reaction);
+      await postPRComment(token, repoFullName, issue.number, `@${login} ${body}`);
+    } catch (err: any) {
+      logger.warn({ deployment: key, command: command.name, err: err?.message }, 'Failed to reply to ChatOps command');
+    }
+  };
+
+  const permission = await getRepoPermission(token, repoFullName, login).catch((err: any) => {
+    logger.warn({ deployment: key, user: login, err: err?.message }, 'Failed to look up repository permission');
+    return 'none';
+  });
+  if (!canRunChatOps(permission)) {
+    logger.warn({ deployment: key, command: command.name, user: login, permission }, '🚫 ChatOps command denied');
+    await reply('-1', 'only collaborators with write access to this repository can run EnvZilla commands.');
+    return res.status(200).json({ status: 'denied', command: command.name });
+  }
+
+  try {
+    const result = await runChatOpsCommand(key, command, payload, token);
+    await reply('+1', result);
+  } catch (error: any) {
+    logger.warn({ deployment: key, command: command.name, error: error.message }, '❌ ChatOps command failed');
+    await reply('confused', `\`/envzilla ${command.name}\` failed: ${error.message}`);
+  }
+
+  res.status(202).json({ status: 'accepted', repo: repoFullName, pr: issue.number, command: command.name });
+}
+
+/**
+ * Carry out a ChatOps command and return the reply to post.
+ */
+async function runChatOpsCommand(key: DeploymentKey, command: ChatOpsCommand, payload: GitHubWebhookPayload, token: string): Promise<string> {
+  const { repoFullName, prNumber } = parseDeploymentKey(key);
+  const deployment = await getDeploymentStore().get(key);
+
+  switch (command.name) {
+    case 'rebuild': {
+      const pr = await getPullRequestHead(token, repoFullName, prNumber);
+      if (pr.state !== 'open') return 'this PR is closed, so there is nothing to rebuild.';
+      const outcome = await queueBuildForHead(key, pr, payload);
+      if (outcome === 'blocked') return `this PR isn't deployed (${previewBlockedReason(pr)}), so it was not rebuilt.`;
+      if (outcome === 'awaiting_approval') return `this PR comes from a fork: run \`/envzilla approve ${pr.commitSha.slice(0, 7)}\` to build it.`;
+      if (outcome !== 'queued') throw new Error(outcome === 'refused' ? 'PRs from forks are not deployed on this server' : 'the build could not be queued');
+      return `🔁 rebuilding \`${pr.commitSha.slice(0, 7)}\`. Progress shows up in the EnvZilla preview comment.`;
+    }
+
+    case 'approve': {
+      const pr = await getPullRequestHead(token, repoFullName, prNumber);
+      if (pr.state !== 'open') return 'this PR is closed, so there is nothing to approve.';
+      if (!isForkPR(pr.repoFullName, repoFullName)) return 'this PR is not from a fork, so it needs no approval.';
+      const policy = forkPolicy();
+      if (policy !== 'approve') {
+        return policy === 'refuse' ? 'PRs from forks are not deployed on this server.' : 'PRs from forks are built in the sandbox without approval on this server.';
+      }
+      // Approving a specific commit guards against a push landing between
+      // the review and the comment
+      const expected = command.args[0]?.toLowerCase();
+      if (expected && (expected.length < 7 || !pr.commitSha.startsWith(expected))) {
+        throw new Error(`the PR's head is now \`${pr.commitSha.slice(0, 7)}\`, not \`${command.args[0]}\`. Review the new commits before approving`);
+      }
+
+      const current = await getDeploymentStore().get(key);
+      await getDeploymentStore().set(key, {
+        ...current,
+        status: current?.status ?? 'awaiting_approval',
+        createdAt: current?.createdAt ?? Date.now(),
+        approvedCommitSha: pr.commitSha
+      });
+      logger.info({ deployment: key, commitSha: pr.commitSha, approvedBy: payload.comment?.user.login }, '✅ Fork PR commit approved');
+      const outcome = await queueBuildForHead(key, pr, payload);
+      if (outcome === 'blocked') return `✅ approved \`${pr.commitSha.slice(0, 7)}\`. It will be built once the PR is deployed again (${previewBlockedReason(pr)}).`;
+      if (outcome !== 'queued') throw new Error('the build could not be queued');
+      return `✅ approved \`${pr.commitSha.slice(0, 7)}\`, building it now.`;
+    }
+
+    case 'destroy': {
+      if (!deployment || deployment.status === 'destroying') return 'there is no preview to destroy.';
+      await handleDestroy(key, payload);
+      return '🗑️ destroying the preview. Push a new commit or run `/envzilla rebuild` to bring it back.';
+    }
+
+    case 'logs': {
+      if (!deployment) return 'there is no preview for this PR yet.';
+      const link = buildLogUrl(key) ?? `\`/deployments/${prNumber}/logs?repo=${repoFullName}\` on the EnvZilla API`;
+      const commit = deployment.commitSha ? ` for \`${deployment.commitSha.slice(0, 7)}\`` : '';
+      return `📜 the latest build log${commit} (${deployment.status}) is at ${link}`;
+    }
+
+    case 'extend': {
+      const extendMs = command.args[0] ? parseDuration(command.args[0]) : undefined;
+      if (!extendMs) throw new Error('give a duration, e.g. `/envzilla extend 48h`');
+      if (extendMs > MAX_EXTEND_MS) throw new Error(`a preview can be extended by at most ${formatDuration(MAX_EXTEND_MS)} at a time`);
+      if (!deployment || deployment.status === 'destroying') return 'there is no preview to extend.';
+
+      const currentExpiry = deployment.expiresAt ?? deployment.createdAt + DEFAULT_MAX_AGE_MS;
+      const expiresAt = Math.max(Date.now(), currentExpiry) + extendMs;
+      const swapped = await getDeploymentStore().compareAndSet(key, deployment, { ...deployment, expiresAt });
+      if (!swapped) throw new Error('the preview changed while extending it, please try again');
+      logger.info({ deployment: key, expiresAt: new Date(expiresAt).toISOString() }, '⏰ Extended deployment');
+      return `⏰ the preview is now kept until ${new Date(expiresAt).toISOString()} (${formatDuration(expiresAt - Date.now())} from now).`;
+    }
+
+    case 'status': {
+      if (!deployment) return 'there is no preview for this PR.';
+      const expiresAt = deployment.expiresAt ?? deployment.createdAt + DEFAULT_MAX_AGE_MS;
+      const rows = [
+        `| **Status** | ${deployment.status}${deployment.failedStep ? ` (${deployment.failedStep})` : ''} |`,
+        deployment.commitSha ? `| **Commit** | \`${deployment.commitSha.slice(0, 7)}\` |` : undefined,
+        deployment.previewUrl ? `| **Preview** | ${deployment.previewUrl} |` : undefined,
+        `| **Expires** | ${new Date(expiresAt).toISOString()} |`
+      ].filter(Boolean);
+      return ['here is the preview\'s status:', '', '| | |', '|---|---|', ...rows].join('\n');
+    }
+
+    case 'help':
+      return CHATOPS_HELP;
+  }
+}
+
+/**
+ * Queue a build of a PR's current head exactly as if it had just been pushed,
+ * including the label and draft policies.
+ */
+async function queueBuildForHead(key: DeploymentKey, pr: PullRequestHead, payload: GitHubWebhookPayload): Promise<BuildRequestOutcome> {
+  const blocked = previewBlockedReason(pr);
+  if (blocked) {
+    logger.info({ deployment: key, reason: blocked }, '⏸️ Not deploying PR');
+    return 'blocked';
+  }
+  if (!pr.cloneUrl) throw new Error('the PR\'s head repository no longer exists');
+  const headPayload: GitHubWebhookPayload = {
+    action: 'synchronize',
+    pull_request: {
+      number: parseDeploymentKey(key).prNumber,
+      title: pr.title,
+      state: 'open',
+      draft: pr.draft,
+      labels: pr.labels,
+      user: { login: pr.author ?? '' },
+      head: { ref: pr.branch, sha: pr.commitSha, repo: { clone_url: pr.cloneUrl, full_name: pr.repoFullName } }
+    } as GitHubWebhookPayload['pull_request'],
+    repository: payload.repository,
+    installation: payload.installation,
+    sender: payload.sender
+  };
+  const { sensitiveData } = processWebhookPayload(headPayload);
+  const encryptionKey = process.env.GITHUB_WEBHOOK_SECRET || 'fallback-key';
+  return handleCreateOrUpdate(key, headPayload, sensitiveData.map(data => encryptData(data, encryptionKey)), encryptionKey);
+}
+
 /**
  * Handles PR creation, reopening, or synchronization (new commits)
  */
 async function handleCreateOrUpdate(
-  prNumber: number, 
+  key: DeploymentKey, 
   payload: GitHubWebhookPayload, 
   encryptedSensitiveData: EncryptedData[],
   encryptionKey: string
-) {
+): Promise<BuildRequestOutcome> {
   try {
+    const { repoFullName } = parseDeploymentKey(key);
+    const author = payload.pull_request?.user?.login;
+    const installationId = payload.installation?.id || payload.sender?.id || undefined;
+    const commitSha = payload.pull_request?.head.sha;
+    const existingDeployment = await getDeploymentStore().get(key);
+
+    // PRs from forks run code we haven't reviewed (see FORK_PR_POLICY)
+    const fork = isForkPR(payload.pull_request?.head.repo?.full_name, repoFullName);
+    const policy = fork ? forkPolicy() : undefined;
+    if (policy === 'refuse') {
+      logger.warn({ deployment: key, commitSha }, '🚫 Not deploying PR from a fork');
+      await updatePreviewComment(key, installationId, {
+        status: 'blocked',
+        commitSha,
+        author,
+        details: 'This PR comes from a fork, and this EnvZilla server does not deploy PRs from forks.'
+      });
+      return 'refused';
+    }
+    if (policy === 'approve' && (!commitSha || existingDeployment?.approvedCommitSha !== commitSha)) {
+      // A preview of an earlier approved commit keeps running meanwhile
+      await getDeploymentStore().set(key, {
+        ...existingDeployment,
+        status: 'awaiting_approval',
+        createdAt: existingDeployment?.createdAt ?? Date.now(),
+        branch: payload.pull_request?.head.ref,
+        commitSha,
+        title: payload.pull_request?.title,
+        author,
+        repoFullName,
+        installationId,
+        fork
+      });
+      logger.info({ deployment: key, commitSha }, '✋ Fork PR commit is waiting for approval');
+      await updatePreviewComment(key, installationId, {
+        status: 'awaiting_approval',
+        commitSha,
+        author,
+        details: [
+          'This PR comes from a fork, so EnvZilla only builds it once a collaborator with write access has reviewed the code.',
+          '',
+          `Comment \`/envzilla approve${commitSha ? ` ${commitSha.slice(0, 7)}` : ''}\` to build this commit. Every new commit needs a new approval.`
+        ].join('\n')
+      });
+      return 'awaiting_approval';
+    }
+
     // Update deployment status
-    const existingDeployment = deployments.get(prNumber);
-    deployments.set(prNumber, {
+    await getDeploymentStore().set(key, {
       ...existingDeployment,
-      status: 'building',
+      status: 'queued',
       createdAt: Date.now(),
-      buildStartedAt: Date.now(),
+      buildStartedAt: undefined,
+      lastError: undefined,
+      failedStep: undefined,
       branch: payload.pull_request?.head.ref,
-      commitSha: payload.pull_request?.head.sha,
+      commitSha,
       title: payload.pull_request?.title,
-      author: payload.pull_request?.user.login
+      author: payload.pull_request?.user.login,
+      repoFullName,
+      installationId,
+      fork,
+      sandboxed: policy === 'sandbox'
     });
 
-    logger.info({ pr: prNumber }, '🏗️ Starting build process for PR');
+    logger.info({ deployment: key }, '🏗️ Queueing build process for PR');
 
     // Decrypt sensitive data for processing
     const decryptedData = encryptedSensitiveData.map(data => 
-      decryptData(data.encrypted, encryptionKey, data.iv, data.tag)
+      decryptData(data, encryptionKey)
     );
 
     logger.info({ 
-      pr: prNumber, 
+      deployment: key, 
       decryptedDataCount: decryptedData.length 
     }, '🔓 Decrypted sensitive data for build process');
 
     // Trigger build process asynchronously
     const branch = payload.pull_request?.head.ref;
-    const repoURL = payload.pull_request?.head.repo.clone_url;
-
-    // DEBUG: log before invoking worker
-    logger.info({ pr: prNumber, branch, repoURL }, '▶️ Invoking worker.buildForPR');
-
-  // Extract repository full name for accurate PR comments (owner/repo)
-  const repoFullName = payload.pull_request?.head?.repo?.full_name || payload.repository?.full_name;
-  const author = payload.pull_request?.user?.login;
-  const installationId = payload.installation?.id || payload.sender?.id || undefined;
-
-  worker.buildForPR(prNumber, branch, repoURL, repoFullName, author, installationId)
-      .then(result => {
-        logger.info({ pr: prNumber, result }, '🔔 buildForPR finished'); // <-- daha ayrıntılı log
-        if (result.code === 0) {
-          let containerId: string | undefined;
-          let hostPort: number | undefined;
-
-          // Try to parse JSON output from integrated approach
-          try {
-            const buildOutput = JSON.parse(result.stdout);
-            containerId = buildOutput.containerId;
-            hostPort = buildOutput.hostPort;
-          } catch {
-            // Fallback to legacy parsing for build.ts script output
-            const stdout = result.stdout || '';
-            const containerIdMatch = stdout.match(/Container started.*containerId:\s*"([a-f0-9]{12,64})"/i);
-            const portMatch = stdout.match(/hostPort:\s*(\d+)/i);
-            
-            containerId = containerIdMatch ? containerIdMatch[1] : undefined;
-            hostPort = portMatch ? Number(portMatch[1]) : undefined;
+    const repoURL = payload.pull_request?.head.repo?.clone_url;
+
+  if (commitSha) await queueCheckRun(key, installationId, commitSha, buildLogUrl(key));
+
+  // Once the job starts, the worker reports the rest of the check run
+  let started = false;
+  getBuildQueue().enqueue(key, commitSha, async signal => {
+      started = true;
+      // Flip the record to building once the queue actually starts the job
+      const queued = await getDeploymentStore().get(key);
+      if (queued && queued.commitSha === commitSha) {
+        await getDeploymentStore().compareAndSet(key, queued, { ...queued, status: 'building', buildStartedAt: Date.now() });
+      }
+
+      // DEBUG: log before invoking worker
+      logger.info({ deployment: key, branch, repoURL }, '▶️ Invoking worker.buildForPR');
+      return worker.buildForPR(key, branch, repoURL, author, installationId, commitSha, signal, {
+        sandbox: policy === 'sandbox',
+        // Stored secrets never reach code from forks
+        secrets: !fork
+      });
+    })
+      .then(async outcome => {
+        if (outcome.status !== 'completed' && !started && commitSha) {
+          await completeCheckRun(key, installationId, commitSha, 'cancelled', {
+            title: 'Build cancelled',
+            summary: outcome.status === 'superseded' ? 'A newer commit was pushed before this one was built.' : 'The pull request was closed before this commit was built.'
+          });
+        }
+        if (outcome.status === 'superseded') {
+          logger.info({ deployment: key, commitSha }, '⏭️ Build superseded by a newer commit');
+          // Superseded after it had already switched the preview over: its
+          // container is the one serving now, and what destroy has to remove
+          if (outcome.value?.code === 0 && !outcome.value.cancelled) await recordLiveContainer(key, outcome.value);
+          return;
+        }
+        if (outcome.status === 'cancelled' || outcome.value.cancelled) {
+          await markCancelled(key, commitSha);
+          return;
+        }
+        const result = outcome.value;
+        if (result.code !== 0) {
+          await markFailed(key, commitSha, result.stderr || `Build exited with code ${result.code}`, result.failedStep);
+          return;
+        }
+        logger.info({ deployment: key, result }, '🔔 buildForPR finished'); // <-- daha ayrıntılı log
+        const { containerId, hostPort, previewUrl } = parseBuildOutput(result);
+
+        if (containerId && hostPort) {
+          // Only record the result if no newer build has replaced this one
+          // in the meantime.
+          const current = await getDeploymentStore().get(key);
+          if (current && current.commitSha !== commitSha) {
+            logger.warn({ deployment: key, commitSha, currentSha: current.commitSha }, 'Ignoring build result for superseded commit');
+            return;
           }
-
-          if (containerId && hostPort) {
-            deployments.set(prNumber, {
-              containerId,
-              hostPort,
-              status: 'running',
-              createdAt: Date.now(),
-              buildStartedAt: deployments.get(prNumber)?.buildStartedAt || Date.now(),
-              buildCompletedAt: Date.now(),
-              branch: payload.pull_request?.head.ref,
-              commitSha: payload.pull_request?.head.sha,
-              title: payload.pull_request?.title,
-              author: payload.pull_request?.user.login
-            });
-
-            logger.info({ 
-              pr: prNumber, 
-              containerId, 
-              hostPort 
-            }, '✅ Build completed successfully - deployment is running');
-          } else {
-            throw new Error('Failed to parse container information from build output');
+          const swapped = await getDeploymentStore().compareAndSet(key, current, {
+            containerId,
+            hostPort,
+            status: 'running',
+            createdAt: Date.now(),
+            buildStartedAt: current?.buildStartedAt || Date.now(),
+            buildCompletedAt: Date.now(),
+            branch: payload.pull_request?.head.ref,
+            commitSha,
+            title: payload.pull_request?.title,
+            author: payload.pull_request?.user.login,
+            repoFullName,
+            installationId,
+            previewUrl,
+            expiresAt: result.repoConfig?.ttlMs ? Date.now() + result.repoConfig.ttlMs : undefined,
+            fork: current?.fork,
+            sandboxed: current?.sandboxed,
+            approvedCommitSha: current?.approvedCommitSha,
+            profile: result.buildResult?.profile,
+            composeProject: result.buildResult?.composeProject,
+            containers: result.buildResult?.containers,
+            access: result.repoConfig?.access
+          });
+          if (!swapped) {
+            logger.warn({ deployment: key, commitSha }, 'Deployment record changed while build was finishing; not overwriting');
+            return;
           }
+
+          logger.info({ 
+            deployment: key, 
+            containerId, 
+            hostPort 
+          }, '✅ Build completed successfully - deployment is running');
         } else {
-          throw new Error(`Build script failed with exit code ${result.code}`);
+          throw new Error('Failed to parse container information from build output');
         }
       })
-      .catch(error => {
-        logger.error({ pr: prNumber, error: error.stack || error.message }, '❌ Build process failed');
+      .catch(async error => {
+        logger.error({ deployment: key, error: error.stack || error.message }, '❌ Build process failed');
+        await markFailed(key, commitSha, error.message);
       });
+    return 'queued';
 
   } catch (error: any) {
-    logger.error({ pr: prNumber, error: error.message }, '❌ Error in create/update handler');
-    deployments.set(prNumber, {
-      ...deployments.get(prNumber),
+    logger.error({ deployment: key, error: error.message }, '❌ Error in create/update handler');
+    await getDeploymentStore().set(key, {
+      ...await getDeploymentStore().get(key),
       status: 'failed',
       lastError: error.message
     } as DeploymentInfo);
+    return 'failed';
+  }
+}
+
+/**
+ * Container, host port and preview URL from the worker's output.
+ */
+function parseBuildOutput(result: worker.BuildForPRResult): { containerId?: string; hostPort?: number; previewUrl?: string } {
+  // Try to parse JSON output from integrated approach
+  try {
+    const buildOutput = JSON.parse(result.stdout);
+    return { containerId: buildOutput.containerId, hostPort: buildOutput.hostPort, previewUrl: buildOutput.previewUrl };
+  } catch {
+    // Fallback to legacy parsing for build.ts script output
+    const stdout = result.stdout || '';
+    const containerIdMatch = stdout.match(/Container started.*containerId:\s*"([a-f0-9]{12,64})"/i);
+    const portMatch = stdout.match(/hostPort:\s*(\d+)/i);
+    return {
+      containerId: containerIdMatch ? containerIdMatch[1] : undefined,
+      hostPort: portMatch ? Number(portMatch[1]) : undefined
+    };
+  }
+}
+
+/**
+ * Record the container of a superseded build that went live anyway, keeping
+ * the newer build's status and commit. If that build fails, this container is
+ * the one still serving the preview.
+ */
+async function recordLiveContainer(key: DeploymentKey, result: worker.BuildForPRResult) {
+  const { containerId, hostPort, previewUrl } = parseBuildOutput(result);
+  const current = await getDeploymentStore().get(key);
+  if (!containerId || !hostPort || !current || current.status === 'destroying') return;
+  await getDeploymentStore().compareAndSet(key, current, {
+    ...current,
+    containerId,
+    hostPort,
+    previewUrl: previewUrl ?? current.previewUrl,
+    profile: result.buildResult?.profile,
+    composeProject: result.buildResult?.composeProject,
+    containers: result.buildResult?.containers,
+    access: result.repoConfig?.access
+  });
+  logger.info({ deployment: key, containerId: containerId.substring(0, 12) }, 'Recorded container of superseded build that is serving the preview');
+}
+
+/**
+ * Record that the build for `commitSha` failed, unless a newer build or the
+ * deployment being destroyed has replaced it. A previous container that is
+ * still serving the preview stays recorded.
+ */
+async function markFailed(key: DeploymentKey, commitSha: string | undefined, error: string, failedStep?: DeploymentInfo['failedStep']) {
+  const current = await getDeploymentStore().get(key);
+  if (!current || current.commitSha !== commitSha || !['queued', 'building'].includes(current.status)) {
+    return;
   }
+  await getDeploymentStore().compareAndSet(key, current, {
+    ...current,
+    status: 'failed',
+    lastError: error,
+    failedStep,
+    buildCompletedAt: Date.now()
+  });
+  logger.warn({ deployment: key, commitSha, failedStep }, '❌ Build failed');
+}
+
+/**
+ * Record that the build for `commitSha` was cancelled, unless the record has
+ * since moved on (a newer build, or the deployment being destroyed).
+ */
+async function markCancelled(key: DeploymentKey, commitSha: string | undefined) {
+  const current = await getDeploymentStore().get(key);
+  if (!current || current.commitSha !== commitSha || !['queued', 'building'].includes(current.status)) {
+    return;
+  }
+  await getDeploymentStore().compareAndSet(key, current, {
+    ...current,
+    status: 'cancelled',
+    buildCompletedAt: Date.now()
+  });
+  logger.info({ deployment: key, commitSha }, '🛑 Build cancelled');
 }
 
 /**
  * Handles PR closure or merging
  */
-async function handleDestroy(prNumber: number, payload: GitHubWebhookPayload) {
+async function handleDestroy(key: DeploymentKey, payload: GitHubWebhookPayload) {
   try {
-    const deployment = deployments.get(prNumber);
+    // Stop any queued or in-flight build first so it can't bring up a
+    // container after we've torn the deployment down.
+    getBuildQueue().cancel(key);
+
+    const deployment = await getDeploymentStore().get(key);
     
     if (!deployment || !deployment.containerId) {
-      logger.warn({ pr: prNumber }, '⚠️ No deployment found to destroy');
+      if (deployment && ['queued', 'building'].includes(deployment.status)) {
+        await markCancelled(key, deployment.commitSha);
+      } else if (deployment?.status === 'awaiting_approval') {
+        // Nothing was ever built for it
+        await getDeploymentStore().delete(key);
+      } else {
+        logger.warn({ deployment: key }, '⚠️ No deployment found to destroy');
+      }
       return;
     }
 
     // Update deployment status
-    deployments.set(prNumber, {
+    await getDeploymentStore().set(key, {
       ...deployment,
       status: 'destroying'
     });
 
     logger.info({ 
-      pr: prNumber, 
+      deployment: key, 
       containerId: deployment.containerId 
     }, '🗑️ Starting destroy process for PR');
 
     // Trigger destroy process asynchronously
-    worker.destroyForPR(deployment.containerId, prNumber)
-      .then(result => {
+    worker.destroyForPR(deployment.containerId, key, deployment.installationId)
+      .then(async result => {
         if (result.code === 0) {
-          deployments.delete(prNumber);
+          await getDeploymentStore().delete(key);
+          await removeBuildLogs(key);
           logger.info({ 
-            pr: prNumber, 
+            deployment: key, 
             containerId: deployment.containerId 
           }, '✅ Deployment destroyed successfully');
         } else {
@@ -305,62 +685,89 @@ async function handleDestroy(prNumber: number, payload: GitHubWebhookPayload) {
       })
       .catch(error => {
         logger.error({ 
-          pr: prNumber, 
+          deployment: key, 
           containerId: deployment.containerId, 
           error: error.message 
         }, '❌ Destroy process failed');
       });
 
   } catch (error: any) {
-    logger.error({ pr: prNumber, error: error.message }, '❌ Error in destroy handler');
+    logger.error({ deployment: key, error: error.message }, '❌ Error in destroy handler');
   }
 }
 
 /**
- * Get deployment information for a specific PR
+ * Get deployment information for a specific repository + PR
  */
-export function getDeploymentInfo(prNumber: number): DeploymentInfo | undefined {
-  return deployments.get(prNumber);
+export async function getDeploymentInfo(key: DeploymentKey): Promise<DeploymentInfo | undefined> {
+  return getDeploymentStore().get(key);
 }
 
 /**
  * Get all active deployments
  */
-export function getAllDeployments(): Map<number, DeploymentInfo> {
-  return new Map(deployments);
+export async function getAllDeployments(): Promise<Map<DeploymentKey, DeploymentInfo>> {
+  return getDeploymentStore().list();
 }
 
 /**
- * Clean up failed or stale deployments
+ * Current build queue occupancy
  */
-export function cleanupStaleDeployments(maxAgeMs: number = 24 * 60 * 60 * 1000) {
-  const now = Date.now();
-  const stalePRs: number[] = [];
+export function getBuildQueueStats(): BuildQueueStats {
+  return getBuildQueue().stats();
+}
 
-  for (const [prNumber, deployment] of deployments) {
-    if ((now - deployment.createdAt) > maxAgeMs) {
-      stalePRs.push(prNumber);
-    }
+/**
+ * Resolve the deployment a request refers to. `repo` (owner/repo) is required
+ * only when the same PR number is deployed from more than one repository.
+ */
+export async function resolveDeploymentKey(prNumber: number, repo?: string): Promise<
+  { key: DeploymentKey } | { error: 'not-found' | 'ambiguous'; candidates?: DeploymentKey[] }
+> {
+  if (repo) {
+    const key = makeDeploymentKey(repo, prNumber);
+    return (await getDeploymentStore().get(key)) ? { key } : { error: 'not-found' };
   }
 
-  stalePRs.forEach(prNumber => {
-    const deployment = deployments.get(prNumber);
-    if (deployment?.containerId) {
-      logger.info({ pr: prNumber }, '🧹 Cleaning up stale deployment');
-      worker.destroyForPR(deployment.containerId, prNumber)
-        .then(() => deployments.delete(prNumber))
-        .catch(error => logger.error({ pr: prNumber, error }, 'Failed to cleanup stale deployment'));
+  const candidates = Array.from((await getDeploymentStore().list()).keys())
+    .filter(key => parseDeploymentKey(key).prNumber === prNumber);
+  if (candidates.length === 0) return { error: 'not-found' };
+  if (candidates.length > 1) return { error: 'ambiguous', candidates };
+  return { key: candidates[0] };
+}
+
+/**
+ * Clean up failed or stale deployments. A deployment with an `expiresAt`
+ * (from the repository's `ttl`) is stale once that passes; others once they
+ * are older than `maxAgeMs`.
+ */
+export async function cleanupStaleDeployments(maxAgeMs: number = DEFAULT_MAX_AGE_MS): Promise<number> {
+  const now = Date.now();
+  const stale = Array.from((await getDeploymentStore().list()).entries())
+    .filter(([, deployment]) => deployment.expiresAt
+      ? now > deployment.expiresAt
+      : (now - deployment.createdAt) > maxAgeMs);
+
+  for (const [key, deployment] of stale) {
+    if (deployment.containerId) {
+      logger.info({ deployment: key }, '🧹 Cleaning up stale deployment');
+      worker.destroyForPR(deployment.containerId, key, deployment.installationId)
+        .then(() => getDeploymentStore().delete(key))
+        .then(() => removeBuildLogs(key))
+        .catch(error => logger.error({ deployment: key, error }, 'Failed to cleanup stale deployment'));
     } else {
-      deployments.delete(prNumber);
+      await getDeploymentStore().delete(key);
+      await removeBuildLogs(key);
     }
-  });
+  }
 
-  return stalePRs.length;
+  return stale.length;
 }
 
 export default {
   dispatchWebhookEvent,
   getDeploymentInfo,
   getAllDeployments,
+  resolveDeploymentKey,
   cleanupStaleDeployments
 };
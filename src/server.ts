@@ -9,8 +9,20 @@ import cors from 'cors';
 import rateLimit from 'express-rate-limit';
 import logger from './utils/logger.js';
 import { verifySignature } from './middlewares/verifySignature.js';
-import { dispatchWebhookEvent, getDeploymentInfo, getAllDeployments, cleanupStaleDeployments } from './middlewares/dispatcherServer.js';
+import { requireAdminToken } from './middlewares/adminAuth.js';
+import { dispatchWebhookEvent, getDeploymentInfo, getAllDeployments, resolveDeploymentKey, cleanupStaleDeployments } from './middlewares/dispatcherServer.js';
+import { DeploymentKey, makeDeploymentKey, parseDeploymentKey } from './lib/deploymentKey.js';
+import { getSecretsStore, resolveSecrets, validateSecretChanges, SecretsValidationError } from './lib/secretsStore.js';
+import { DeploymentInfo } from './types/webhook.js';
 import { performHealthCheck, logHealthStatus } from './utils/healthCheck.js';
+import { reconcileDeployments } from './lib/reconcileDeployments.js';
+import { startPreviewProxy, previewProxyUrl } from './lib/previewProxy.js';
+import { createSignedLink, getPreviewAccess } from './lib/previewAccess.js';
+import { parseDuration } from './utils/duration.js';
+import { readBuildLog, getActiveBuildLog, BuildLogEvent } from './lib/buildLogs.js';
+import { streamContainerLogs, isValidLogSince } from './lib/containerLogs.js';
+import { inspectPreviewContainer } from './lib/destroyContainer.js';
+import { createRedactor, sensitiveValues } from './utils/redact.js';
 import { spawn } from 'child_process';
 import * as worker from './worker.js';
 
@@ -88,41 +100,206 @@ app.get('/health', async (req: Request, res: Response) => {
 	}
 });
 
-// Get deployment information for a specific PR
-app.get('/deployments/:prNumber', (req: Request, res: Response) => {
+function serializeDeployment(key: DeploymentKey, deployment: DeploymentInfo) {
+	const { repoFullName, prNumber } = parseDeploymentKey(key);
+	return {
+		key,
+		repo: repoFullName,
+		pr: prNumber,
+		status: deployment.status,
+		containerId: deployment.containerId,
+		hostPort: deployment.hostPort,
+		previewUrl: deployment.previewUrl,
+		createdAt: new Date(deployment.createdAt).toISOString(),
+		expiresAt: deployment.expiresAt ? new Date(deployment.expiresAt).toISOString() : undefined,
+		branch: deployment.branch,
+		commitSha: deployment.commitSha,
+		lastError: deployment.lastError,
+		failedStep: deployment.failedStep,
+		fork: deployment.fork,
+		sandboxed: deployment.sandboxed,
+		profile: deployment.profile,
+		composeProject: deployment.composeProject,
+		containers: deployment.containers
+	};
+}
+
+function sseHeaders() {
+	return {
+		'Content-Type': 'text/event-stream',
+		'Cache-Control': 'no-cache',
+		'Connection': 'keep-alive',
+		// Stop nginx and similar proxies from buffering the stream
+		'X-Accel-Buffering': 'no'
+	};
+}
+
+function sseEvent(event: BuildLogEvent | { type: 'output' | 'end'; stream?: string; text?: string }): string {
+	return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Resolve `/deployments/:prNumber` (optionally `?repo=owner/repo`) to a
+ * deployment key, writing the error response and returning undefined if it
+ * can't be resolved.
+ */
+async function lookupDeploymentKey(req: Request, res: Response): Promise<DeploymentKey | undefined> {
 	const prNumber = Number(req.params.prNumber);
-	if (isNaN(prNumber)) {
-		return res.status(400).json({ error: 'Invalid PR number' });
+	if (!Number.isInteger(prNumber) || prNumber <= 0) {
+		res.status(400).json({ error: 'Invalid PR number' });
+		return undefined;
 	}
 
-	const deployment = getDeploymentInfo(prNumber);
+	const repo = typeof req.query.repo === 'string' ? req.query.repo : undefined;
+	let resolved: Awaited<ReturnType<typeof resolveDeploymentKey>>;
+	try {
+		resolved = await resolveDeploymentKey(prNumber, repo);
+	} catch {
+		res.status(400).json({ error: 'Invalid repo, expected owner/repo' });
+		return undefined;
+	}
+
+	if ('error' in resolved) {
+		if (resolved.error === 'ambiguous') {
+			res.status(409).json({
+				error: 'PR number is deployed from multiple repositories; pass ?repo=owner/repo',
+				candidates: resolved.candidates
+			});
+		} else {
+			res.status(404).json({ error: 'Deployment not found' });
+		}
+		return undefined;
+	}
+
+	return resolved.key;
+}
+
+// Logs of a protected preview would show what its access protection hides,
+// so they need the admin token as well
+async function authorizeLogAccess(req: Request, res: Response, key: DeploymentKey): Promise<boolean> {
+	const deployment = await getDeploymentInfo(key);
+	if (!getPreviewAccess(key) && !deployment?.access) return true;
+
+	let allowed = false;
+	requireAdminToken(req, res, () => { allowed = true; });
+	return allowed;
+}
+
+// Get deployment information for a specific PR
+app.get('/deployments/:prNumber', async (req: Request, res: Response) => {
+	const key = await lookupDeploymentKey(req, res);
+	if (!key) return;
+
+	const deployment = await getDeploymentInfo(key);
 	if (!deployment) {
 		return res.status(404).json({ error: 'Deployment not found' });
 	}
 
-	res.json({
-		pr: prNumber,
-		status: deployment.status,
-		containerId: deployment.containerId,
-		hostPort: deployment.hostPort,
-		createdAt: new Date(deployment.createdAt).toISOString(),
-		branch: deployment.branch,
-		commitSha: deployment.commitSha
+	res.json(serializeDeployment(key, deployment));
+});
+
+// Build log of the latest build (or `?previous=N` builds before it). With
+// `?follow=true` the log of a running build is streamed as server-sent events.
+app.get('/deployments/:prNumber/logs', async (req: Request, res: Response) => {
+	const key = await lookupDeploymentKey(req, res);
+	if (!key) return;
+	if (!(await authorizeLogAccess(req, res, key))) return;
+
+	const previous = req.query.previous === undefined ? 0 : Number(req.query.previous);
+	if (!Number.isInteger(previous) || previous < 0) {
+		return res.status(400).json({ error: 'Invalid previous, expected a non-negative integer' });
+	}
+
+	const active = previous === 0 ? getActiveBuildLog(key) : undefined;
+	if (req.query.follow !== 'true' || !active) {
+		const log = await readBuildLog(key, previous);
+		if (log === undefined) {
+			return res.status(404).json({ error: 'Build log not found' });
+		}
+		if (req.query.follow !== 'true') {
+			return res.type('text/plain').send(log);
+		}
+
+		// Nothing is running any more: send the finished log and close
+		res.writeHead(200, sseHeaders());
+		res.write(sseEvent({ type: 'output', text: log }));
+		return res.end(sseEvent({ type: 'end' }));
+	}
+
+	res.writeHead(200, sseHeaders());
+	res.write(sseEvent({ type: 'output', text: active.contents() }));
+
+	// Comment lines keep proxies from closing an idle stream
+	const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), 15_000);
+	const unsubscribe = active.subscribe(event => {
+		res.write(sseEvent(event));
+		if (event.type === 'end') res.end();
 	});
+	res.on('close', () => {
+		clearInterval(heartbeat);
+		unsubscribe();
+	});
+});
+
+// Output of the running preview container (`docker logs`). Values of
+// secret-looking variables in the container's environment are redacted.
+app.get('/deployments/:prNumber/container-logs', async (req: Request, res: Response) => {
+	const key = await lookupDeploymentKey(req, res);
+	if (!key) return;
+	if (!(await authorizeLogAccess(req, res, key))) return;
+
+	const tail = req.query.tail === undefined ? 200 : req.query.tail === 'all' ? 'all' : Number(req.query.tail);
+	if (tail !== 'all' && (!Number.isInteger(tail) || tail < 0)) {
+		return res.status(400).json({ error: 'Invalid tail, expected a non-negative integer or "all"' });
+	}
+	const since = typeof req.query.since === 'string' ? req.query.since : undefined;
+	if (since !== undefined && !isValidLogSince(since)) {
+		return res.status(400).json({ error: 'Invalid since, expected a timestamp or a duration such as 10m' });
+	}
+	const follow = req.query.follow === 'true';
+
+	const deployment = await getDeploymentInfo(key);
+	const container = deployment?.containerId ? await inspectPreviewContainer(deployment.containerId) : undefined;
+	if (!container) {
+		return res.status(404).json({ error: 'Deployment has no container' });
+	}
+
+	// Injected secrets are redacted whatever their name
+	const storedSecrets = Object.values(await resolveSecrets(key).catch(() => ({})));
+	const redact = createRedactor([...sensitiveValues(container.env), ...storedSecrets]);
+	const controller = new AbortController();
+	res.on('close', () => controller.abort());
+
+	// EventSource clients get server-sent events; anything else (curl, for
+	// example) gets the raw lines as a chunked text response.
+	const sse = follow && Boolean(req.get('accept')?.includes('text/event-stream'));
+	if (sse) {
+		res.writeHead(200, sseHeaders());
+	} else {
+		res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8', 'Cache-Control': 'no-cache', 'X-Accel-Buffering': 'no' });
+	}
+	const heartbeat = sse ? setInterval(() => res.write(': heartbeat\n\n'), 15_000) : undefined;
+
+	try {
+		await streamContainerLogs(container.id, { tail, since, follow, signal: controller.signal }, ({ stream, line }) => {
+			const text = redact(line);
+			res.write(sse ? sseEvent({ type: 'output', stream, text }) : text + '\n');
+		});
+		if (sse) res.write(sseEvent({ type: 'end' }));
+	} catch (error: any) {
+		logger.error({ deployment: key, error: error.message }, 'Failed to read container logs');
+		if (sse) res.write(sseEvent({ type: 'end' }));
+	} finally {
+		clearInterval(heartbeat);
+		res.end();
+	}
 });
 
 // Get all active deployments
-app.get('/deployments', (req: Request, res: Response) => {
-	const deployments = getAllDeployments();
-	const deploymentList = Array.from(deployments.entries()).map(([prNumber, deployment]) => ({
-		pr: prNumber,
-		status: deployment.status,
-		containerId: deployment.containerId,
-		hostPort: deployment.hostPort,
-		createdAt: new Date(deployment.createdAt).toISOString(),
-		branch: deployment.branch,
-		commitSha: deployment.commitSha
-	}));
+app.get('/deployments', async (req: Request, res: Response) => {
+	const deployments = await getAllDeployments();
+	const deploymentList = Array.from(deployments.entries())
+		.map(([key, deployment]) => serializeDeployment(key, deployment));
 
 	res.json({
 		count: deploymentList.length,
@@ -131,11 +308,11 @@ app.get('/deployments', (req: Request, res: Response) => {
 });
 
 // Manual cleanup endpoint for stale deployments
-app.post('/admin/cleanup', (req: Request, res: Response) => {
+app.post('/admin/cleanup', async (req: Request, res: Response) => {
 	const maxAgeHours = Number(req.query.maxAge) || 24;
 	const maxAgeMs = maxAgeHours * 60 * 60 * 1000;
 	
-	const cleanedCount = cleanupStaleDeployments(maxAgeMs);
+	const cleanedCount = await cleanupStaleDeployments(maxAgeMs);
 	
 	res.json({
 		message: `Cleanup completed`,
@@ -144,6 +321,93 @@ app.post('/admin/cleanup', (req: Request, res: Response) => {
 	});
 });
 
+/**
+ * Resolve `/admin/secrets/:owner/:repo[/pulls/:prNumber]`, writing the error
+ * response and returning undefined if the path or the store isn't usable.
+ */
+function lookupSecretsScope(req: Request, res: Response): { repoFullName: string; prNumber?: number } | undefined {
+	if (!getSecretsStore()) {
+		res.status(503).json({ error: 'Secrets store is disabled; set SECRETS_ENCRYPTION_KEY to enable it' });
+		return undefined;
+	}
+
+	const prNumber = req.params.prNumber === undefined ? undefined : Number(req.params.prNumber);
+	if (prNumber !== undefined && (!Number.isInteger(prNumber) || prNumber <= 0)) {
+		res.status(400).json({ error: 'Invalid PR number' });
+		return undefined;
+	}
+
+	try {
+		const { repoFullName } = parseDeploymentKey(makeDeploymentKey(`${req.params.owner}/${req.params.repo}`, prNumber ?? 1));
+		return { repoFullName, prNumber };
+	} catch {
+		res.status(400).json({ error: 'Invalid repo, expected owner/repo' });
+		return undefined;
+	}
+}
+
+// Names of the secrets stored for a repository and its PRs. Values are
+// write-only: no endpoint ever returns them.
+app.get('/admin/secrets/:owner/:repo', requireAdminToken, async (req: Request, res: Response) => {
+	const scope = lookupSecretsScope(req, res);
+	if (!scope) return;
+
+	try {
+		res.json({ repo: scope.repoFullName, ...await getSecretsStore()!.names(scope.repoFullName) });
+	} catch (error: any) {
+		logger.error({ repo: scope.repoFullName, error: error.message }, 'Failed to read secrets store');
+		res.status(500).json({ error: 'Failed to read secrets store' });
+	}
+});
+
+// Set repository defaults, or one PR's overrides. The body maps variable
+// names to values; `null` removes a variable. Applies from the next build.
+app.put(['/admin/secrets/:owner/:repo', '/admin/secrets/:owner/:repo/pulls/:prNumber'], requireAdminToken, async (req: Request, res: Response) => {
+	const scope = lookupSecretsScope(req, res);
+	if (!scope) return;
+
+	try {
+		const changes = validateSecretChanges(req.body);
+		const store = getSecretsStore()!;
+		await store.update(scope.repoFullName, scope.prNumber, changes);
+		logger.info({ repo: scope.repoFullName, pr: scope.prNumber, names: Object.keys(changes) }, '🔐 Updated secrets');
+		res.json({ repo: scope.repoFullName, pr: scope.prNumber, ...await store.names(scope.repoFullName) });
+	} catch (error: any) {
+		if (error instanceof SecretsValidationError) {
+			return res.status(400).json({ error: 'Invalid secrets', issues: error.issues });
+		}
+		logger.error({ repo: scope.repoFullName, error: error.message }, 'Failed to update secrets store');
+		res.status(500).json({ error: 'Failed to update secrets store' });
+	}
+});
+
+// Time-limited link to a preview protected with `access.mode: signed`. The
+// body may set `ttl` (e.g. `30m`, `7d`); the default is 24 hours.
+app.post('/deployments/:prNumber/signed-link', requireAdminToken, async (req: Request, res: Response) => {
+	const key = await lookupDeploymentKey(req, res);
+	if (!key) return;
+
+	const previewUrl = previewProxyUrl(key);
+	if (!previewUrl || getPreviewAccess(key)?.mode !== 'signed') {
+		return res.status(409).json({ error: 'Preview is not protected with signed links' });
+	}
+
+	const ttl = req.body?.ttl;
+	const ttlMs = ttl === undefined ? 24 * 60 * 60 * 1000 : (typeof ttl === 'string' || typeof ttl === 'number' ? parseDuration(ttl) : undefined);
+	if (!ttlMs) {
+		return res.status(400).json({ error: 'Invalid ttl, expected a duration such as 30m, 12h or 7d' });
+	}
+
+	try {
+		const link = createSignedLink(key, previewUrl, ttlMs);
+		logger.info({ deployment: key, expiresAt: new Date(link.expiresAt).toISOString() }, '🔗 Created signed preview link');
+		res.json({ url: link.url, expiresAt: new Date(link.expiresAt).toISOString() });
+	} catch (error: any) {
+		logger.error({ deployment: key, error: error.message }, 'Failed to create signed preview link');
+		res.status(500).json({ error: 'Failed to create signed preview link' });
+	}
+});
+
 // Main GitHub webhook endpoint - now uses the comprehensive event dispatcher
 app.post(
 	'/webhooks/github',
@@ -177,12 +441,24 @@ app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
 
 app.listen(PORT, () => {
 	logger.info({ port: PORT }, `EnvZilla sample app roaring on port http://localhost:${PORT} — press CTRL+C to calm the beast`);
+
+	// Re-adopt previews that survived a restart and clean up orphans
+	if (process.env.RECONCILE_ON_STARTUP !== 'false') {
+		reconcileDeployments().catch((error: any) => {
+			logger.error({ error: error.message }, 'Error during startup reconciliation');
+		});
+	}
 	
+	// Serve previews on their own subdomains if PROXY_PORT is set
+	startPreviewProxy().catch((error: any) => {
+		logger.error({ error: error.message }, 'Failed to start the preview proxy');
+	});
+
 	// Start background cleanup job - runs every 6 hours
-	const cleanupInterval = setInterval(() => {
+	const cleanupInterval = setInterval(async () => {
 		logger.info('🧹 Running scheduled cleanup of stale deployments');
 		try {
-			const cleanedCount = cleanupStaleDeployments();
+			const cleanedCount = await cleanupStaleDeployments();
 			if (cleanedCount > 0) {
 				logger.info({ cleanedCount }, 'Scheduled cleanup completed');
 			}
@@ -1,5 +1,9 @@
 // filepath: c:\Users\asd\Documents\Github\envzilla\src\types/webhook.ts
 
+import type { BuildStep } from '../lib/buildContainer.js';
+import type { ContainerProfile } from '../lib/containerProfile.js';
+import type { AccessConfig } from '../lib/repoConfig.js';
+
 export interface GitHubWebhookPayload {
   action: string;
   pull_request?: {
@@ -7,10 +11,11 @@ export interface GitHubWebhookPayload {
     head: {
       ref: string;
       sha: string;
+      // null once the fork the PR came from has been deleted
       repo: {
         clone_url: string;
         full_name: string;
-      };
+      } | null;
     };
     base: {
       ref: string;
@@ -24,6 +29,10 @@ export interface GitHubWebhookPayload {
     html_url: string;
     state: 'open' | 'closed';
     merged: boolean;
+    draft?: boolean;
+    labels?: Array<{
+      name: string;
+    }>;
     user: {
       login: string;
       avatar_url: string;
@@ -49,26 +58,69 @@ export interface GitHubWebhookPayload {
   installation?: {
     id: number;
   };
+  // The label added or removed, for labeled/unlabeled events
+  label?: {
+    name: string;
+  };
+  // issue_comment events (comments on a PR arrive as comments on its issue)
+  issue?: {
+    number: number;
+    state: 'open' | 'closed';
+    pull_request?: {
+      url: string;
+    };
+  };
+  comment?: {
+    id: number;
+    body: string;
+    user: {
+      login: string;
+      type: string;
+    };
+  };
 }
 
 export interface DeploymentInfo {
   containerId?: string;
   hostPort?: number;
   createdAt: number;
-  status: 'building' | 'running' | 'destroying' | 'failed' | 'stopped';
+  status: 'queued' | 'building' | 'running' | 'destroying' | 'failed' | 'cancelled' | 'stopped' | 'awaiting_approval';
   branch?: string;
   commitSha?: string;
   title?: string;
   author?: string;
+  repoFullName?: string;
+  installationId?: number | string;
+  previewUrl?: string;
   lastError?: string;
+  // Step the last failed build stopped at
+  failedStep?: BuildStep;
   buildStartedAt?: number;
   buildCompletedAt?: number;
+  // Set from the repository's `ttl`; overrides the global stale-deployment age
+  expiresAt?: number;
+  // The PR comes from a fork (see FORK_PR_POLICY)
+  fork?: boolean;
+  // Built with the sandbox profile
+  sandboxed?: boolean;
+  // Fork commit a collaborator approved with `/envzilla approve`
+  approvedCommitSha?: string;
+  // Limits and hardening options the running container was started with
+  profile?: ContainerProfile;
+  // Compose previews: the project and all of its containers; `containerId`
+  // is the exposed service's
+  composeProject?: string;
+  containers?: Array<{ service: string; containerId: string }>;
+  // Who may open the preview through the built-in proxy
+  access?: AccessConfig;
 }
 
 export interface EncryptedData {
   encrypted: string;
   iv: string;
   tag: string;
+  // scrypt salt the key was derived with
+  salt: string;
 }
 
 export interface WebhookProcessingResult {
@@ -0,0 +1,43 @@
+// utils/duration.ts
+
+const UNIT_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse a human duration such as `90m`, `48h`, `2d` or `1w` into milliseconds.
+ * Bare numbers are treated as hours. Returns undefined for anything else.
+ */
+export function parseDuration(input: string | number): number | undefined {
+  if (typeof input === 'number') {
+    return Number.isFinite(input) && input > 0 ? input * UNIT_MS.h : undefined;
+  }
+
+  const m = input.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*([smhdw]?)$/);
+  if (!m) return undefined;
+
+  const value = Number(m[1]);
+  const ms = value * UNIT_MS[m[2] || 'h'];
+  return ms > 0 ? Math.round(ms) : undefined;
+}
+
+/**
+ * Format milliseconds as a compact human duration, e.g. `2d 4h` or `3m 12s`.
+ */
+export function formatDuration(ms: number): string {
+  const parts: string[] = [];
+  let remaining = Math.max(0, Math.round(ms / 1000)) * 1000;
+  for (const unit of ['d', 'h', 'm', 's']) {
+    const size = UNIT_MS[unit];
+    if (remaining >= size || (unit === 's' && parts.length === 0)) {
+      parts.push(`${Math.floor(remaining / size)}${unit}`);
+      remaining %= size;
+    }
+    if (parts.length === 2) break;
+  }
+  return parts.join(' ');
+}
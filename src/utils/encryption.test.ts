@@ -0,0 +1,34 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { decryptData, encryptData } from './encryption.js';
+
+const SECRET = 'correct horse battery staple';
+
+test('encryptData output decrypts back to the input', () => {
+  const plain = JSON.stringify({ DATABASE_URL: 'postgres://preview:s3cret@db/web', EMOJI: '🦖' });
+  const data = encryptData(plain, SECRET);
+  assert.notEqual(data.encrypted, Buffer.from(plain).toString('hex'));
+  assert.equal(decryptData(data, SECRET), plain);
+});
+
+test('encryptData uses a fresh IV for every encryption', () => {
+  const first = encryptData('same value', SECRET);
+  const second = encryptData('same value', SECRET);
+  assert.notEqual(first.iv, second.iv);
+  assert.notEqual(first.encrypted, second.encrypted);
+});
+
+test('decryptData derives the key from the stored salt', () => {
+  const data = encryptData('from disk', SECRET);
+  assert.equal(data.salt.length, 32);
+  assert.throws(() => decryptData({ ...data, salt: '00'.repeat(16) }, SECRET));
+  assert.equal(decryptData(data, SECRET), 'from disk');
+});
+
+test('decryptData refuses a wrong secret or tampered data', () => {
+  const data = encryptData('top secret', SECRET);
+  assert.throws(() => decryptData(data, 'wrong secret'));
+
+  const flipped = (parseInt(data.encrypted.slice(0, 2), 16) ^ 0xff).toString(16).padStart(2, '0');
+  assert.throws(() => decryptData({ ...data, encrypted: flipped + data.encrypted.slice(2) }, SECRET));
+});
@@ -0,0 +1,81 @@
+// utils/encryption.ts
+
+import crypto from 'crypto';
+import { EncryptedData } from '../types/webhook.js';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+
+// scrypt is deliberately slow and blocks the event loop, so derived keys are
+// cached by secret and salt (a few entries: one salt per secret for what this
+// process encrypts, plus those of data read back from disk)
+const MAX_CACHED_KEYS = 32;
+const derivedKeys = new Map<string, Buffer>();
+const encryptionSalts = new Map<string, Buffer>();
+
+function cacheId(secret: string, salt: Buffer): string {
+  return crypto.createHash('sha256').update(secret).update(salt).digest('hex');
+}
+
+/**
+ * Derive a 32-byte key from a secret and salt with scrypt. The salt is
+ * stored next to the ciphertext.
+ */
+function deriveKey(secret: string, salt: Buffer): Buffer {
+  const id = cacheId(secret, salt);
+  let key = derivedKeys.get(id);
+  if (!key) {
+    key = crypto.scryptSync(secret, salt, KEY_LENGTH);
+    if (derivedKeys.size >= MAX_CACHED_KEYS) derivedKeys.delete(derivedKeys.keys().next().value!);
+    derivedKeys.set(id, key);
+  }
+  return key;
+}
+
+/**
+ * Salt for new encryptions with `secret`: random, and picked once per process
+ * so the derived key can be reused. IVs stay unique per encryption.
+ */
+function encryptionSalt(secret: string): Buffer {
+  const id = cacheId(secret, Buffer.alloc(0));
+  let salt = encryptionSalts.get(id);
+  if (!salt) {
+    salt = crypto.randomBytes(SALT_LENGTH);
+    encryptionSalts.set(id, salt);
+  }
+  return salt;
+}
+
+/**
+ * Encrypts data using AES-256-GCM with a key derived from `secret`.
+ */
+export function encryptData(data: string, secret: string): EncryptedData {
+  const salt = encryptionSalt(secret);
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, deriveKey(secret, salt), iv);
+
+  let encrypted = cipher.update(data, 'utf8', 'hex');
+  encrypted += cipher.final('hex');
+
+  return {
+    encrypted,
+    iv: iv.toString('hex'),
+    tag: cipher.getAuthTag().toString('hex'),
+    salt: salt.toString('hex'),
+  };
+}
+
+/**
+ * Decrypts data produced by `encryptData`. Throws if the secret is wrong or
+ * the data was tampered with.
+ */
+export function decryptData(data: EncryptedData, secret: string): string {
+  const key = deriveKey(secret, Buffer.from(data.salt, 'hex'));
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(data.iv, 'hex'));
+  decipher.setAuthTag(Buffer.from(data.tag, 'hex'));
+
+  let decrypted = decipher.update(data.encrypted, 'hex', 'utf8');
+  decrypted += decipher.final('utf8');
+  return decrypted;
+}
@@ -1,6 +1,8 @@
 import { spawn } from 'child_process';
 import logger from './logger.js';
-import { getAllDeployments } from '../middlewares/dispatcherServer.js';
+import { getAllDeployments, getBuildQueueStats } from '../middlewares/dispatcherServer.js';
+import { BuildQueueStats } from '../lib/buildQueue.js';
+import { getTunnelProvider, TunnelStatus } from '../lib/tunnelProvider.js';
 
 export interface HealthStatus {
   status: 'healthy' | 'degraded' | 'unhealthy';
@@ -12,6 +14,15 @@ export interface HealthStatus {
       running: number;
       failed: number;
       building: number;
+      queued: number;
+    };
+    buildQueue: BuildQueueStats;
+    tunnel: {
+      provider: string;
+      connected: number;
+      restarting: number;
+      failed: number;
+      tunnels: TunnelStatus[];
     };
     system: {
       uptime: number;
@@ -81,15 +92,18 @@ function getMemoryInfo() {
 /**
  * Analyze deployment status
  */
-function analyzeDeployments() {
-  const deployments = getAllDeployments();
+async function analyzeDeployments() {
+  const deployments = await getAllDeployments();
   const stats = {
     total: deployments.size,
     running: 0,
     failed: 0,
     building: 0,
+    queued: 0,
+    cancelled: 0,
     destroying: 0,
-    stopped: 0
+    stopped: 0,
+    awaiting_approval: 0
   };
 
   for (const [, deployment] of deployments) {
@@ -99,6 +113,21 @@ function analyzeDeployments() {
   return stats;
 }
 
+/**
+ * State of every preview's tunnel
+ */
+function analyzeTunnels(): HealthStatus['checks']['tunnel'] {
+  const provider = getTunnelProvider();
+  const tunnels = provider.listActive();
+  return {
+    provider: provider.name,
+    connected: tunnels.filter(t => t.state === 'connected').length,
+    restarting: tunnels.filter(t => t.state === 'restarting' || t.state === 'starting').length,
+    failed: tunnels.filter(t => t.state === 'failed').length,
+    tunnels
+  };
+}
+
 /**
  * Perform comprehensive health check
  */
@@ -113,7 +142,19 @@ export async function performHealthCheck(): Promise<HealthStatus> {
   }
 
   // Check deployments
-  const deploymentStats = analyzeDeployments();
+  const deploymentStats = await analyzeDeployments();
+
+  // Check tunnels
+  let tunnelStats: HealthStatus['checks']['tunnel'];
+  try {
+    tunnelStats = analyzeTunnels();
+    if (tunnelStats.failed > 0) {
+      errors.push(`${tunnelStats.failed} preview tunnel(s) could not be restarted`);
+    }
+  } catch (error: any) {
+    tunnelStats = { provider: 'unknown', connected: 0, restarting: 0, failed: 0, tunnels: [] };
+    errors.push(`Tunnel provider is not available: ${error.message}`);
+  }
 
   // Check system resources
   const memoryInfo = getMemoryInfo();
@@ -134,6 +175,8 @@ export async function performHealthCheck(): Promise<HealthStatus> {
     checks: {
       docker: dockerHealthy,
       deployments: deploymentStats,
+      buildQueue: getBuildQueueStats(),
+      tunnel: tunnelStats,
       system: {
         uptime: process.uptime(),
         memory: memoryInfo
@@ -154,6 +197,11 @@ export function logHealthStatus(health: HealthStatus) {
     healthStatus: health.status,
     dockerHealthy: health.checks.docker,
     deployments: health.checks.deployments,
+    tunnels: {
+      connected: health.checks.tunnel.connected,
+      restarting: health.checks.tunnel.restarting,
+      failed: health.checks.tunnel.failed
+    },
     memoryUsage: health.checks.system.memory.percentage,
     errors: health.errors
   }, `Health check: ${health.status}`);
@@ -1,14 +1,15 @@
 // utils/logger.ts
 
 import pino from 'pino';
+import { REDACTED } from './redact.js';
 
 const level = (process.env.LOG_LEVEL || 'info') as pino.Level;
 const pretty = process.env.NODE_ENV !== 'production';
 
 // Redact common sensitive fields and long tokens from logs to avoid accidental leakage.
 const redact = {
-  paths: ['req.headers.authorization', 'res.headers.authorization', 'err.stack'],
-  censor: '[REDACTED]',
+  paths: ['req.headers.authorization', 'res.headers.authorization', 'err.stack', 'secrets', '*.secrets'],
+  censor: REDACTED,
 };
 
 const baseOptions: pino.LoggerOptions = {
@@ -0,0 +1,55 @@
+// utils/redact.ts
+
+export const REDACTED = '[REDACTED]';
+
+// Variable names whose values are treated as secrets
+const SENSITIVE_NAME = /(secret|token|passw(or)?d|pwd|api[_-]?key|private[_-]?key|access[_-]?key|credential|auth(?!or)|cookie|session|dsn|connection[_-]?string)/i;
+
+// Well-known credential shapes, redacted even when we don't know the value
+const TOKEN_PATTERNS: Array<[RegExp, string]> = [
+  [/\b(gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g, REDACTED],
+  [/\b(AKIA|ASIA)[0-9A-Z]{16}\b/g, REDACTED],
+  [/\b(authorization:\s*)(bearer|basic|token)\s+\S+/gi, `$1$2 ${REDACTED}`],
+  [/(\w+:\/\/[^\s:/@]+:)[^\s@/]+@/g, `$1${REDACTED}@`],
+];
+
+// Values this short would redact ordinary words all over the output
+const MIN_SECRET_LENGTH = 4;
+
+export function isSensitiveName(name: string): boolean {
+  return SENSITIVE_NAME.test(name);
+}
+
+/**
+ * Values of the sensitive variables in an environment, given as a map or as
+ * `NAME=value` strings (the form `docker inspect` reports).
+ */
+export function sensitiveValues(env: Record<string, string> | string[]): string[] {
+  const entries = Array.isArray(env)
+    ? env.map(pair => {
+      const i = pair.indexOf('=');
+      return i === -1 ? [pair, ''] : [pair.slice(0, i), pair.slice(i + 1)];
+    })
+    : Object.entries(env);
+
+  return entries
+    .filter(([name, value]) => isSensitiveName(name) && value.length >= MIN_SECRET_LENGTH)
+    .map(([, value]) => value);
+}
+
+/**
+ * Build a function that masks the given secret values and well-known token
+ * shapes in a piece of text. Longer secrets are replaced first so one that
+ * contains another is still fully masked.
+ */
+export function createRedactor(secrets: string[] = []): (text: string) => string {
+  const values = Array.from(new Set(secrets.filter(s => s.length >= MIN_SECRET_LENGTH)))
+    .sort((a, b) => b.length - a.length);
+
+  return (text: string) => {
+    let out = text;
+    for (const value of values) out = out.split(value).join(REDACTED);
+    for (const [pattern, replacement] of TOKEN_PATTERNS) out = out.replace(pattern, replacement);
+    return out;
+  };
+}
@@ -6,21 +6,57 @@ import {
     buildContainerFromPath, 
     ensureDockerIsAvailable, 
     cleanupTempDir,
+    throwIfCancelled,
+    asStepError,
+    BuildCancelledError,
+    BuildStepError,
+    BuildStep,
     BuildResult 
 } from './lib/buildContainer.js';
-import { startHttpTunnel, stopTunnelForPR } from './lib/cloudflaredManager.js';
-import { postPRComment } from './lib/githubClient.js';
-import { getInstallationAccessToken } from './lib/githubAuth.js';
+import { getTunnelProvider } from './lib/tunnelProvider.js';
+import { previewProxyUrl, previewProxyConfig } from './lib/previewProxy.js';
+import { checkPreviewAccess, setPreviewAccess } from './lib/previewAccess.js';
+import { routeDeployment, removeRoute } from './lib/previewRouter.js';
+import { updatePreviewComment } from './lib/previewComment.js';
+import { startGitHubDeployment, setGitHubDeploymentStatus, deactivateGitHubDeployments } from './lib/githubDeployments.js';
+import { reportCheckRunProgress, completeCheckRun, dockerfileAnnotations } from './lib/checkRuns.js';
 import { 
     destroyContainer, 
-    destroyByPRNumber,
+    destroyByDeploymentKey,
+    listDeploymentContainers,
     DestroyResult 
 } from './lib/destroyContainer.js';
+import { DeploymentKey, parseDeploymentKey } from './lib/deploymentKey.js';
+import { loadRepoConfig, resolvePreviewAccess, RepoConfig, RepoConfigError, formatRepoConfigError } from './lib/repoConfig.js';
+import { startBuildLog, buildLogUrl, BuildLog } from './lib/buildLogs.js';
+import { resolveSecrets } from './lib/secretsStore.js';
+import { startPreviewServices, destroyPreviewServices, retireStaleServices, StartedServices } from './lib/previewServices.js';
+import { resolveContainerProfile } from './lib/containerProfile.js';
+import { buildComposePreview, destroyComposeProject, composeProjectFor } from './lib/composePreview.js';
+import { createRedactor, sensitiveValues } from './utils/redact.js';
+import { formatDuration } from './utils/duration.js';
 
 type RunResult = { code: number; stdout: string; stderr: string };
 
-interface BuildForPRResult extends RunResult {
+export interface BuildForPRResult extends RunResult {
     buildResult?: BuildResult;
+    repoConfig?: RepoConfig;
+    // True when the build stopped because its AbortSignal fired
+    cancelled?: boolean;
+    // Where a failed build stopped
+    failedStep?: BuildStep;
+    // When the build started and finished (ms since epoch)
+    startedAt?: number;
+    completedAt?: number;
+}
+
+export interface BuildForPROptions {
+    // Build and run untrusted code (e.g. a fork PR) in the sandbox profile:
+    // no network egress and strict resource limits
+    sandbox?: boolean;
+    // Inject the secrets stored for the repository and PR (see
+    // secretsStore.ts). Ignored for sandboxed builds.
+    secrets?: boolean;
 }
 
 interface DestroyForPRResult extends RunResult {
@@ -45,6 +81,107 @@ function runLocalScript(args: string[], cwd = process.cwd(), timeoutMs = 10 * 60
     });
 }
 
+/**
+ * Poll `url` until it answers with a 2xx status.
+ */
+async function waitForUrl(url: string, attempts = 6, delayMs = 1000, timeoutMs = 3000): Promise<void> {
+    for (let i = 0; i < attempts; i++) {
+        try {
+            const controller = new AbortController();
+            const id = setTimeout(() => controller.abort(), timeoutMs);
+            const res = await (globalThis as any).fetch(url, { method: 'GET', signal: controller.signal });
+            clearTimeout(id);
+            if (res && res.ok) return;
+        } catch (e) {
+            // ignore and retry
+        }
+        await new Promise((r) => setTimeout(r, delayMs));
+    }
+    throw new Error(`Timed out waiting for preview URL to respond: ${url}`);
+}
+
+const STEP_DESCRIPTIONS: Record<BuildStep, string> = {
+    clone: 'cloning the branch',
+    config: 'reading `.envzilla.yml`',
+    services: 'starting the backing services',
+    build: 'building the Docker image',
+    run: 'starting the container',
+    health: 'waiting for the health check',
+    tunnel: 'exposing the preview'
+};
+
+// How much of the build log goes into a failure comment
+const LOG_TAIL_LINES = 40;
+const LOG_TAIL_CHARS = 4000;
+
+/**
+ * Last lines of a build log, trimmed to fit in a PR comment.
+ */
+function logTail(log: string): string {
+    const tail = log.trimEnd().split('\n').slice(-LOG_TAIL_LINES).join('\n');
+    return tail.length > LOG_TAIL_CHARS ? '…' + tail.slice(-LOG_TAIL_CHARS) : tail;
+}
+
+/**
+ * PR comment for a failed build: the step that failed, the error, the end of
+ * the build log and how to retry.
+ */
+function formatBuildFailure(key: DeploymentKey, message: string, opts: { commitSha?: string; step?: BuildStep; log?: string }): string {
+    const summary = message.split('\n')[0].slice(0, 300);
+    const { repoFullName, prNumber } = parseDeploymentKey(key);
+    const logLink = buildLogUrl(key);
+    const where = opts.step ? ` while ${STEP_DESCRIPTIONS[opts.step]}` : '';
+
+    const lines = [
+        `❌ EnvZilla could not deploy a preview${opts.commitSha ? ` for ${opts.commitSha.slice(0, 7)}` : ''}: it failed${where}.`,
+        '',
+        `> ${summary}`
+    ];
+
+    if (opts.log) {
+        const tail = logTail(opts.log);
+        // Use a fence longer than any run of backticks in the log itself
+        const longestRun = Math.max(0, ...(tail.match(/`+/g) || []).map(run => run.length));
+        const fence = '`'.repeat(Math.max(3, longestRun + 1));
+        lines.push('', '<details><summary>End of the build log</summary>', '', fence + 'text', tail, fence, '', '</details>');
+    }
+
+    lines.push(
+        '',
+        logLink
+            ? `Full build log: ${logLink}`
+            : `The full build log is available from the EnvZilla API at \`/deployments/${prNumber}/logs?repo=${repoFullName}\`.`,
+        '',
+        '🔁 Push a new commit to this branch to retry.'
+    );
+    return lines.join('\n');
+}
+
+function formatBytes(bytes: number): string {
+    const units = ['B', 'KB', 'MB', 'GB'];
+    let value = bytes;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+}
+
+/**
+ * Check run summary for a successful build.
+ */
+function formatBuildSummary(opts: { previewUrl: string; commitSha?: string; durationMs: number; buildResult: BuildResult }): string {
+    const rows = [
+        `| **Preview** | ${opts.previewUrl} |`,
+        opts.commitSha ? `| **Commit** | \`${opts.commitSha.slice(0, 7)}\` |` : undefined,
+        `| **Build time** | ${formatDuration(opts.durationMs)} |`,
+        opts.buildResult.imageSize ? `| **Image size** | ${formatBytes(opts.buildResult.imageSize)} |` : undefined,
+        `| **Image** | \`${opts.buildResult.imageName}\` |`
+    ].filter(Boolean);
+    return ['| | |', '|---|---|', ...rows].join('\n');
+}
+
 // Windows needs pipe path; other OS use default socket/ENV
 const dockerOptions = process.platform === 'win32' ? { socketPath: '//./pipe/docker_engine' } : undefined;
 const docker = new Docker(dockerOptions);
@@ -54,119 +191,259 @@ const docker = new Docker(dockerOptions);
  * This integrates the git clone and docker build logic.
  */
 export async function buildForPR(
-    prNumber: number, 
+    key: DeploymentKey, 
     branch?: string,
     repoURL?: string,
-    repoFullNameArg?: string,
     author?: string,
-    installationId?: number | string
+    installationId?: number | string,
+    commitSha?: string,
+    signal?: AbortSignal,
+    options: BuildForPROptions = {}
 ): Promise<BuildForPRResult> {
   const startedAt = Date.now();
+  let buildLog: BuildLog | undefined;
+  // Values from .envzilla.yml and the secrets store that must not show up
+  // in logs or failure comments
+  let secrets: string[] = [];
+  // GitHub Deployment shown as "View deployment" on the PR
+  let githubDeploymentId: number | undefined;
+  // Dockerfile path from the repository root, for check run annotations
+  let dockerfile: string | undefined;
+  const checkProgress = (title: string) => commitSha
+    ? reportCheckRunProgress(key, installationId, commitSha, title, buildLogUrl(key))
+    : Promise.resolve();
   try {
-    logger.info({ pr: prNumber, branch, repoURL }, '🏗️ buildForPR started');
+    logger.info({ deployment: key, branch, repoURL }, '🏗️ buildForPR started');
+    buildLog = await startBuildLog(key, { branch, commitSha });
+    await updatePreviewComment(key, installationId, { status: 'building', commitSha, startedAt, author });
+    const deployRef = commitSha || branch;
+    if (deployRef) githubDeploymentId = await startGitHubDeployment(key, installationId, deployRef, buildLogUrl(key));
+    await checkProgress('Cloning the branch');
+    const onOutput = buildLog.write.bind(buildLog);
 
     // Ensure repoURL present
-    if (!repoURL) throw new Error('Missing repoURL for build');
-
-    // Use naming convention to track containers
-    const containerName = `preview-${prNumber}`;
+    if (!repoURL) throw new Error('Missing repoURL for build; the PR\'s head repository may have been deleted');
 
     // Ensure Docker is available
     await ensureDockerIsAvailable();
     
     // If we have branch and repo URL, use the integrated approach
     if (branch && repoURL) {
-        logger.info({ pr: prNumber }, '🔄 Using integrated git clone + docker build approach');
+        logger.info({ deployment: key }, '🔄 Using integrated git clone + docker build approach');
         
         // Step 1: Clone the PR repository
-        const tempDir = await clonePRRepo(branch, repoURL);
-        
-        // Step 2: Build container from the cloned path
-        const buildResult = await buildContainerFromPath(tempDir, prNumber);
-        
-        // Step 3: Clean up temporary directory
-        await cleanupTempDir(tempDir);
-        
-        // Format output to match expected format
-        // Start an external tunnel for the container port so it is reachable from GitHub
-        let publicUrl = `http://localhost:${buildResult.hostPort}`;
+        buildLog.step(`Cloning ${branch}`);
+        const tempDir = await clonePRRepo(branch, repoURL, undefined, signal, onOutput);
+
+        let repoConfig: RepoConfig;
+        let buildResult: BuildResult;
+        let services: StartedServices | undefined;
         try {
-            const name = `envzilla-pr-${prNumber}`;
-            const tunnel = await startHttpTunnel(buildResult.hostPort, name, undefined, prNumber);
-            publicUrl = tunnel.publicUrl;
+            throwIfCancelled(signal);
 
-            // Wait for the preview URL to become responsive before posting a PR comment.
-            // This avoids writing a comment too early while the app or tunnel is still coming up.
-            async function waitForUrl(url: string, attempts = 6, delayMs = 1000, timeoutMs = 3000) {
-                for (let i = 0; i < attempts; i++) {
-                    try {
-                        const controller = new AbortController();
-                        const id = setTimeout(() => controller.abort(), timeoutMs);
-                        const res = await (globalThis as any).fetch(url, { method: 'GET', signal: controller.signal });
-                        clearTimeout(id);
-                        if (res && res.ok) return;
-                    } catch (e) {
-                        // ignore and retry
-                    }
-                    await new Promise((r) => setTimeout(r, delayMs));
-                }
-                throw new Error(`Timed out waiting for preview URL to respond: ${url}`);
+            // Step 2: Read the repository's .envzilla.yml (or defaults)
+            try {
+                repoConfig = await loadRepoConfig(tempDir);
+                secrets = [...sensitiveValues(repoConfig.build.args), ...sensitiveValues(repoConfig.run.env)];
+            } catch (err: any) {
+                buildLog.step(err.message);
+                throw err;
             }
 
+            // The PR branch can't switch protection off (see resolvePreviewAccess)
             try {
-                await waitForUrl(publicUrl);
-                logger.info({ pr: prNumber, publicUrl }, 'Preview URL is responsive');
-            } catch (e: any) {
-                logger.warn({ pr: prNumber, publicUrl, err: e?.message }, 'Preview URL did not become responsive in time — will still post comment but note it may be unavailable');
+                repoConfig = { ...repoConfig, access: await resolvePreviewAccess(repoConfig.access, parseDeploymentKey(key).repoFullName, installationId) };
+            } catch (err: any) {
+                throw new BuildStepError('config', err.message, { cause: err });
             }
 
-            // If we have repository info in env, post a comment to the PR with the link
-            // Expect REPO_FULL_NAME like owner/repo
-            // Prefer explicit repo full name passed from the webhook (owner/repo).
-            // Fallback to environment or derive from clone URL for backward-compat.
-            const deriveRepoFullName = (explicit?: string, url?: string) => {
-                if (explicit) return explicit;
-                if (process.env.REPO_FULL_NAME) return process.env.REPO_FULL_NAME;
-                if (!url) return undefined;
-                // Support git@github.com:owner/repo.git and https://github.com/owner/repo.git
-                let s = url.trim();
-                // git@github.com:owner/repo.git
-                const m = s.match(/^git@[^:]+:(.+)$/);
-                if (m && m[1]) s = m[1];
-                else s = s.replace(/^https?:\/\/(?:www\.)?[^/]+\//, '');
-                return s.replace(/\.git$/, '');
-            };
+            // Protection is enforced by the preview proxy; without it the
+            // preview would be public, so don't expose it at all
+            if (repoConfig.access) {
+                const issues = previewProxyConfig()
+                    ? await checkPreviewAccess(key, repoConfig.access)
+                    : ['access protection needs the built-in preview proxy (PROXY_PORT and PREVIEW_DOMAIN)'];
+                if (issues.length > 0) throw new BuildStepError('config', issues.join('; '));
+                buildLog.step(`Preview access: ${repoConfig.access.mode}`);
+            }
 
-            const repoFullName = deriveRepoFullName(repoFullNameArg, repoURL);
-            // Use per-job ephemeral token if available (in CI/GitHub App flow this will be provided per job)
-            // Prefer a true installation token when installationId is provided
-            let ephemeralToken = process.env.EPHEMERAL_GITHUB_TOKEN || process.env.GITHUB_TOKEN;
-            if (!ephemeralToken && installationId) {
+            let storedSecrets: Record<string, string> = {};
+            if (options.secrets && !options.sandbox) {
                 try {
-                    ephemeralToken = await getInstallationAccessToken(installationId);
-                } catch (e: any) {
-                    logger.warn({ pr: prNumber, installationId, err: e?.message }, 'Failed to create installation access token');
+                    storedSecrets = await resolveSecrets(key);
+                } catch (err: any) {
+                    throw new BuildStepError('config', `Could not read stored secrets: ${err.message}`, { cause: err });
                 }
+                secrets.push(...Object.values(storedSecrets));
+                // Names only; values never go to the log
+                const names = Object.keys(storedSecrets);
+                if (names.length > 0) buildLog.step(`Injecting stored secrets: ${names.join(', ')}`);
             }
 
-            if (repoFullName && ephemeralToken) {
-                // Build a bilingual, light-hearted message and mention the PR author when available
-                const safeUrl = (publicUrl || '').toString().trim();
-                const header = author ? `@${author} 👋` : '👀 Envzilla is peeking at your preview environment — Envzilla ortamını dikizliyor 👀';
-                const body = [
-                    header,
-                    '',
-                    `Preview: ${safeUrl}`,
-                    `Container: ${buildResult.containerId}`,
-                    `Port: ${buildResult.hostPort}`
-                ].join('\n');
-                // best-effort post; do not fail the build if comment fails
-                try { await postPRComment(ephemeralToken, repoFullName, prNumber, body); } catch (err: any) { logger.warn({ err, pr: prNumber }, 'Failed to post PR comment'); }
+            // Backing services declared in .envzilla.yml run on a per-PR
+            // network the app joins, with the app's limits
+            if (repoConfig.services.length > 0) {
+                buildLog.step(`Starting services: ${repoConfig.services.map(s => `${s.name} (${s.image})`).join(', ')}`);
+                await checkProgress('Starting the backing services');
+                services = await startPreviewServices(key, tempDir, repoConfig.services, {
+                    internal: options.sandbox,
+                    profile: resolveContainerProfile({ ...repoConfig.run.resources, ...repoConfig.run.security }, options.sandbox),
+                    signal,
+                    onOutput
+                });
+                secrets.push(...Object.values(services.env));
+            }
+
+            // Step 3: Build container from the cloned path. Labels let startup
+            // reconciliation attribute the container if the server restarts.
+            const labels: Record<string, string> = {};
+            if (installationId) labels['envzilla.installation'] = String(installationId);
+            if (commitSha) labels['envzilla.commit'] = commitSha;
+            // Lets reconciliation tell public previews from protected ones
+            // when their record is gone
+            labels['envzilla.access'] = repoConfig.access?.mode ?? 'none';
+            if (options.sandbox) buildLog.step('Using the sandbox profile: no network egress and strict resource limits');
+
+            if (repoConfig.compose) {
+                // Compose projects define their own networks, which the
+                // sandbox can't confine
+                if (options.sandbox) {
+                    throw new BuildStepError('config', 'Compose previews are not available for sandboxed builds');
+                }
+                buildLog.step(`Starting ${repoConfig.compose.file} (exposing ${repoConfig.compose.service})`);
+                await checkProgress('Building the compose project');
+                buildResult = await buildComposePreview(tempDir, key, repoConfig.compose, {
+                    containerPort: repoConfig.run.port,
+                    env: repoConfig.run.env,
+                    secrets: storedSecrets,
+                    profile: { ...repoConfig.run.resources, ...repoConfig.run.security },
+                    labels,
+                    signal,
+                    onOutput
+                });
             } else {
-                logger.info({ repoFullName }, 'No repo information or GITHUB_TOKEN; skipping PR comment');
+                dockerfile = repoConfig.build.dockerfile;
+                buildLog.step(`Building ${repoConfig.build.dockerfile} (context ${repoConfig.build.context})`);
+                await checkProgress('Building the Docker image');
+                buildResult = await buildContainerFromPath(tempDir, key, repoConfig.build.dockerfile, {
+                    contextPath: repoConfig.build.context,
+                    buildArgs: repoConfig.build.args,
+                    containerPort: repoConfig.run.port,
+                    env: { ...repoConfig.run.env, ...services?.env },
+                    secrets: storedSecrets,
+                    network: services?.network,
+                    profile: { ...repoConfig.run.resources, ...repoConfig.run.security },
+                    labels,
+                    // Unique per build so the new container can start next to the
+                    // one currently serving the preview
+                    revision: `${commitSha ? commitSha.slice(0, 7) + '-' : ''}${Date.now().toString(36)}`,
+                    sandbox: options.sandbox,
+                    signal,
+                    onOutput
+                });
+            }
+        } finally {
+            // Step 4: Clean up temporary directory
+            await cleanupTempDir(tempDir);
+        }
+
+        // Containers still serving this preview from earlier builds
+        const previousContainers = (await listDeploymentContainers(key).catch(() => []))
+            .filter(id => id !== buildResult.containerId);
+
+        // Only this build's container and image go; the previous ones keep serving
+        const discardNewContainer = async () => {
+            if (buildResult.composeProject) await destroyComposeProject(buildResult.composeProject);
+            else await destroyContainer(buildResult.containerId, key, { destroyImage: true, keepDeploymentImages: true });
+        };
+
+        // Cancelled right as the container came up: don't leave it behind
+        if (signal?.aborted) {
+            await discardNewContainer();
+            throwIfCancelled(signal);
+        }
+
+        // Step 5: Health-check the new container directly, before any traffic
+        // is switched to it
+        const localUrl = new URL(repoConfig.run.healthCheck.path, `http://${buildResult.targetHost ?? '127.0.0.1'}:${buildResult.hostPort}`).toString();
+        buildLog.step(`Container started on port ${buildResult.hostPort}, waiting for ${localUrl}`);
+        await checkProgress('Waiting for the health check');
+        try {
+            // How long a new container gets before a redeploy gives up on it
+            // and keeps the previous container serving
+            await waitForUrl(localUrl, Number(process.env.HEALTH_CHECK_ATTEMPTS) || 30);
+            logger.info({ deployment: key, url: localUrl }, '💚 New container passed its health check');
+            buildLog.step('Health check passed');
+        } catch (e: any) {
+            if (previousContainers.length > 0) {
+                await discardNewContainer();
+                throw new BuildStepError('health', `New container failed its health check, the previous preview is still being served: ${e?.message}`);
+            }
+            logger.warn({ deployment: key, url: localUrl, err: e?.message }, 'New container did not pass its health check in time — deploying it anyway as there is nothing to fall back to');
+            buildLog.step('Health check did not pass in time; deploying anyway as there is no previous preview');
+        }
+
+        if (signal?.aborted) {
+            await discardNewContainer();
+            throwIfCancelled(signal);
+        }
+
+        // Step 6: Switch the deployment's stable route to the new container,
+        // then retire the containers it replaces
+        let routePort: number;
+        try {
+            setPreviewAccess(key, repoConfig.access);
+            routePort = await routeDeployment(key, buildResult.hostPort, buildResult.targetHost);
+        } catch (e) {
+            await discardNewContainer();
+            throw asStepError('tunnel', e);
+        }
+        buildLog.step(previousContainers.length > 0 ? 'Switched preview to the new container' : `Preview routed through port ${routePort}`);
+        for (const containerId of previousContainers) {
+            logger.info({ deployment: key, containerId: containerId.substring(0, 12) }, '♻️ Retiring previous preview container');
+            await destroyContainer(containerId, key, { destroyImage: true, keepDeploymentImages: true });
+        }
+        // The rest of a compose project this preview used to be
+        if (!buildResult.composeProject) await destroyComposeProject(composeProjectFor(key));
+        // Service instances only the retired containers used
+        if (services) await retireStaleServices(key, services.containers);
+        else await destroyPreviewServices(key);
+        
+        // Format output to match expected format
+        // Start an external tunnel for the route so it is reachable from GitHub.
+        // The tunnel survives redeploys because it points at the route, not
+        // at a container.
+        // With the built-in proxy the preview has a stable subdomain instead.
+        const proxyUrl = previewProxyUrl(key);
+        const tunnels = getTunnelProvider();
+        let publicUrl = proxyUrl ?? tunnels.status(key)?.publicUrl ?? `http://localhost:${routePort}`;
+        try {
+            if (!proxyUrl && !tunnels.status(key)?.publicUrl) {
+                const tunnel = await tunnels.start(key, routePort);
+                publicUrl = tunnel.publicUrl;
+            }
+
+            // Wait for the preview URL to become responsive before posting a PR comment.
+            // This avoids writing a comment too early while the app or tunnel is still coming up.
+            try {
+                await waitForUrl(new URL(repoConfig.run.healthCheck.path, publicUrl).toString());
+                logger.info({ deployment: key, publicUrl }, 'Preview URL is responsive');
+            } catch (e: any) {
+                logger.warn({ deployment: key, publicUrl, err: e?.message }, 'Preview URL did not become responsive in time — will still post comment but note it may be unavailable');
             }
         } catch (err: any) {
-            logger.warn({ err, pr: prNumber }, 'Failed to start ngrok tunnel; falling back to localhost');
+            logger.warn({ err, deployment: key, provider: tunnels.name }, 'Failed to start tunnel; falling back to localhost');
+        }
+
+        // The new container is live now. A newer commit will replace it in
+        // turn, but a closed PR must not keep it around.
+        if (signal?.aborted && signal.reason === 'cancelled') {
+            await tunnels.stop(key);
+            await removeRoute(key);
+            setPreviewAccess(key, undefined);
+            if (buildResult.composeProject) await destroyComposeProject(buildResult.composeProject);
+            else await destroyContainer(buildResult.containerId, key, { destroyImage: true });
+            throwIfCancelled(signal);
         }
 
         const stdout = JSON.stringify({
@@ -178,53 +455,140 @@ export async function buildForPR(
         }, null, 2);
         
         logger.info({ 
-            pr: prNumber, 
+            deployment: key, 
             containerId: buildResult.containerId.substring(0, 12),
             hostPort: buildResult.hostPort 
         }, '✅ Integrated build completed successfully');
+        await buildLog.end('succeeded');
+        if (commitSha) {
+            await completeCheckRun(key, installationId, commitSha, 'success', {
+                title: 'Preview is running',
+                summary: formatBuildSummary({ previewUrl: publicUrl, commitSha, durationMs: Date.now() - startedAt, buildResult })
+            }, buildLogUrl(key));
+        }
+        await setGitHubDeploymentStatus(key, installationId, githubDeploymentId, 'success', {
+            environmentUrl: proxyUrl ?? tunnels.status(key)?.publicUrl,
+            logUrl: buildLogUrl(key),
+            description: 'Preview is running'
+        });
+        await updatePreviewComment(key, installationId, {
+            status: 'running',
+            commitSha,
+            previewUrl: publicUrl,
+            startedAt,
+            completedAt: Date.now(),
+            author
+        });
         
         return {
             code: 0,
             stdout,
             stderr: '',
-            buildResult
+            buildResult,
+            repoConfig,
+            startedAt,
+            completedAt: Date.now()
         };
         
     } else {
         // Fallback to legacy build script approach
-        logger.info({ pr: prNumber }, '🔄 Using legacy build script approach');
-        return runLocalScript(['tsx', 'build.ts']);
+        logger.info({ deployment: key }, '🔄 Using legacy build script approach');
+        const result = await runLocalScript(['tsx', 'build.ts']);
+        buildLog.write('stdout', result.stdout);
+        buildLog.write('stderr', result.stderr);
+        await buildLog.end(result.code === 0 ? 'succeeded' : 'failed');
+        if (commitSha) {
+            await completeCheckRun(key, installationId, commitSha, result.code === 0 ? 'success' : 'failure', {
+                title: result.code === 0 ? 'Preview built' : 'Preview build failed',
+                summary: `The legacy build script exited with code ${result.code}.`
+            });
+        }
+        return result;
     }
   } catch (err: any) {
-    logger.error({ pr: prNumber, error: err.stack || err.message }, '💥 buildForPR error');
+    if (err instanceof BuildCancelledError) {
+      logger.info({ deployment: key, reason: err.reason }, '🛑 buildForPR cancelled');
+      buildLog?.step(err.message);
+      await buildLog?.end('cancelled');
+      await setGitHubDeploymentStatus(key, installationId, githubDeploymentId, 'inactive', { description: err.message });
+      if (commitSha) {
+        await completeCheckRun(key, installationId, commitSha, 'cancelled', { title: 'Build cancelled', summary: err.message });
+      }
+      return {
+        code: 1,
+        stdout: '',
+        stderr: err.message,
+        cancelled: true,
+        startedAt,
+        completedAt: Date.now()
+      };
+    }
+    const failedStep: BuildStep | undefined = err instanceof BuildStepError ? err.step
+      : err instanceof RepoConfigError ? 'config'
+      : undefined;
+    const redact = createRedactor(secrets);
+    const message = redact(err.message || String(err));
+    logger.error({ deployment: key, failedStep, error: redact(err.stack || err.message) }, '💥 buildForPR error');
+    buildLog?.step(`Error${failedStep ? ` (${failedStep})` : ''}: ${message}`);
+    await buildLog?.end('failed');
+
+    await setGitHubDeploymentStatus(key, installationId, githubDeploymentId, 'failure', {
+      logUrl: buildLogUrl(key),
+      description: `Failed${failedStep ? ` (${failedStep})` : ''}: ${message.split('\n')[0]}`
+    });
+    // Configuration problems are explained in full rather than with the log
+    const log = buildLog ? redact(buildLog.contents()) : undefined;
+    const details = err instanceof RepoConfigError
+      ? formatRepoConfigError(err)
+      : formatBuildFailure(key, message, { commitSha, step: failedStep, log });
+    if (commitSha) {
+      await completeCheckRun(key, installationId, commitSha, 'failure', {
+        title: failedStep ? `Failed while ${STEP_DESCRIPTIONS[failedStep]}` : 'Preview build failed',
+        summary: details,
+        annotations: failedStep === 'build' && dockerfile && log ? dockerfileAnnotations(log, dockerfile) : undefined
+      }, buildLogUrl(key));
+    }
+    await updatePreviewComment(key, installationId, {
+      status: 'failed',
+      commitSha,
+      failedStep,
+      startedAt,
+      completedAt: Date.now(),
+      author,
+      details
+    });
     return {
       code: 1,
       stdout: '',
-      stderr: err.message || String(err),
+      stderr: message,
+      failedStep,
       startedAt,
       completedAt: Date.now()
-    } as BuildForPRResult;
+    };
   }
 }
 
 /**
  * Destroy a container for a PR using the integrated destroy logic.
  */
-export async function destroyForPR(containerId: string, prNumber?: number): Promise<DestroyForPRResult> {
-    logger.info({ pr: prNumber, containerId }, 'worker: starting integrated destroy process');
+export async function destroyForPR(containerId: string, key?: DeploymentKey, installationId?: number | string): Promise<DestroyForPRResult> {
+    logger.info({ deployment: key, containerId }, 'worker: starting integrated destroy process');
     
     try {
         let destroyResult: DestroyResult;
         
         if (containerId && containerId !== 'undefined') {
             // Destroy specific container
-            destroyResult = await destroyContainer(containerId, prNumber, {
-                destroyImage: true,
-                containerName: prNumber ? `preview-${prNumber}` : undefined
+            destroyResult = await destroyContainer(containerId, key, {
+                destroyImage: true
             });
-        } else if (prNumber) {
-            // Destroy by PR number if no specific container ID
-            const results = await destroyByPRNumber(prNumber);
+
+            // Also remove any other container of the deployment, e.g. one left
+            // behind by a redeploy that was interrupted mid-switch
+            if (key && destroyResult.success) await destroyByDeploymentKey(key);
+        } else if (key) {
+            // Destroy by deployment key if no specific container ID
+            const results = await destroyByDeploymentKey(key);
             destroyResult = results[0] || {
                 success: false,
                 containerId: '',
@@ -233,7 +597,7 @@ export async function destroyForPR(containerId: string, prNumber?: number): Prom
                 errors: ['No containers found for PR']
             };
         } else {
-            throw new Error('Either containerId or prNumber must be provided');
+            throw new Error('Either containerId or deployment key must be provided');
         }
         
         const stdout = JSON.stringify({
@@ -246,13 +610,21 @@ export async function destroyForPR(containerId: string, prNumber?: number): Prom
         
         if (destroyResult.success) {
             logger.info({ 
-                pr: prNumber, 
+                deployment: key, 
                 containerId: destroyResult.containerId ? destroyResult.containerId.substring(0, 12) : 'N/A',
                 containerDestroyed: destroyResult.containerDestroyed,
                 imageDestroyed: destroyResult.imageDestroyed
             }, '✅ Integrated destroy completed successfully');
-            // Attempt to stop any ngrok tunnel tied to this PR
-            try { if (prNumber) await stopTunnelForPR(prNumber); } catch (err: any) { logger.warn({ err, pr: prNumber }, 'Failed to stop ngrok tunnel for PR'); }
+            // Attempt to stop any tunnel tied to this PR
+            try { if (key) await getTunnelProvider().stop(key); } catch (err: any) { logger.warn({ err, deployment: key }, 'Failed to stop tunnel for PR'); }
+            if (key) {
+                await destroyComposeProject(composeProjectFor(key));
+                await destroyPreviewServices(key);
+                await removeRoute(key);
+                setPreviewAccess(key, undefined);
+                await updatePreviewComment(key, installationId, { status: 'destroyed' });
+                await deactivateGitHubDeployments(key, installationId);
+            }
         }
         
         return {
@@ -263,10 +635,10 @@ export async function destroyForPR(containerId: string, prNumber?: number): Prom
         };
         
     } catch (error: any) {
-        logger.error({ pr: prNumber, containerId, error: error.message }, '❌ Destroy process failed');
+        logger.error({ deployment: key, containerId, error: error.message }, '❌ Destroy process failed');
         
         // Fallback to legacy destroy script approach
-        logger.info({ pr: prNumber, containerId }, '🔄 Falling back to legacy destroy script');
+        logger.info({ deployment: key, containerId }, '🔄 Falling back to legacy destroy script');
         return runLocalScript(['tsx', 'destroy.ts', containerId]);
     }
 }